@@ -0,0 +1,183 @@
+/**
+ * Command to review past attendance sessions with daily, weekly and monthly worked hours
+ */
+
+import { List, ActionPanel, Action, Icon, Color, showToast, Toast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import {
+  AttendanceDay,
+  AttendanceRecord,
+  SessionExpiredError,
+  getAttendanceHistory,
+  groupAttendanceByDay,
+  formatHours,
+  formatTime,
+  formatDayTitle,
+  getDateRange,
+  startOfWeek,
+  parseOdooDate,
+  DATE_RANGE_TITLES,
+} from "./utils/odoo";
+import type { DateRangeOption } from "./utils/odoo";
+import { DateRangeDropdown } from "./components/DateRangeDropdown";
+import { ensureInitialized } from "./init";
+import { handleSessionExpired } from "./utils/session";
+
+const RANGE_OPTIONS: DateRangeOption[] = ["this_week", "last_week", "this_month", "last_month"];
+
+function formatShortDate(date: Date): string {
+  return date.toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+function formatSession(record: AttendanceRecord): string {
+  return `${formatTime(record.checkIn)} – ${record.checkOut ? formatTime(record.checkOut) : "now"}`;
+}
+
+// Worked hours per week (Monday start) within the range, oldest first
+function groupByWeek(days: AttendanceDay[]): { weekStart: Date; workedHours: number }[] {
+  const weeks = new Map<number, { weekStart: Date; workedHours: number }>();
+  for (const day of days) {
+    const weekStart = startOfWeek(parseOdooDate(day.date));
+    const week = weeks.get(weekStart.getTime()) ?? { weekStart, workedHours: 0 };
+    week.workedHours += day.workedHours;
+    weeks.set(weekStart.getTime(), week);
+  }
+  return [...weeks.values()].sort((a, b) => a.weekStart.getTime() - b.weekStart.getTime());
+}
+
+// Plain-text summary for payroll checks
+function buildReport(range: DateRangeOption, days: AttendanceDay[], total: number): string {
+  const lines = [`Attendance — ${DATE_RANGE_TITLES[range]}`, ""];
+  for (const day of [...days].reverse()) {
+    lines.push(`${formatDayTitle(day.date)}: ${formatHours(day.workedHours)}`);
+  }
+  lines.push("");
+  for (const week of groupByWeek(days)) {
+    lines.push(`Week of ${formatShortDate(week.weekStart)}: ${formatHours(week.workedHours)}`);
+  }
+  lines.push(`Total: ${formatHours(total)}`);
+  return lines.join("\n");
+}
+
+export default function AttendanceHistoryCommand() {
+  ensureInitialized();
+
+  const [range, setRange] = useState<DateRangeOption>("this_week");
+  const [records, setRecords] = useState<AttendanceRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadHistory();
+  }, [range]);
+
+  async function loadHistory() {
+    setIsLoading(true);
+    try {
+      setRecords(await getAttendanceHistory(getDateRange(range)));
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        await handleSessionExpired();
+        return;
+      }
+
+      console.error("Failed to load attendance history:", error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to load attendance",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const days = groupAttendanceByDay(records);
+  const total = days.reduce((sum, day) => sum + day.workedHours, 0);
+  const report = buildReport(range, days, total);
+
+  const commonActions = (
+    <>
+      <Action.CopyToClipboard
+        title="Copy Report"
+        content={report}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+      />
+      <Action
+        title="Refresh"
+        icon={Icon.ArrowClockwise}
+        onAction={loadHistory}
+        shortcut={{ modifiers: ["cmd"], key: "r" }}
+      />
+    </>
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`Attendance History — ${formatHours(total)}`}
+      searchBarAccessory={<DateRangeDropdown options={RANGE_OPTIONS} value={range} onChange={setRange} />}
+    >
+      <List.EmptyView
+        title="No Attendance"
+        description={`No check-ins ${DATE_RANGE_TITLES[range].toLowerCase()}`}
+        actions={<ActionPanel>{commonActions}</ActionPanel>}
+      />
+      {days.length > 0 && (
+        <List.Section title="Totals">
+          {groupByWeek(days).map((week) => (
+            <List.Item
+              key={week.weekStart.getTime()}
+              title={`Week of ${formatShortDate(week.weekStart)}`}
+              icon={Icon.Calendar}
+              accessories={[{ text: formatHours(week.workedHours) }]}
+              actions={<ActionPanel>{commonActions}</ActionPanel>}
+            />
+          ))}
+          <List.Item
+            title={DATE_RANGE_TITLES[range]}
+            icon={Icon.BarChart}
+            accessories={[{ text: formatHours(total) }]}
+            actions={<ActionPanel>{commonActions}</ActionPanel>}
+          />
+        </List.Section>
+      )}
+      {days.map((day) => (
+        <List.Section
+          key={day.date}
+          title={formatDayTitle(day.date)}
+          subtitle={
+            day.gapHours > 0
+              ? `${formatHours(day.workedHours)} worked · ${formatHours(day.gapHours)} gaps`
+              : `${formatHours(day.workedHours)} worked`
+          }
+        >
+          {day.sessions.map((session, index) => {
+            const previous = day.sessions[index - 1];
+            const gap =
+              previous?.checkOut &&
+              (new Date(session.checkIn).getTime() - new Date(previous.checkOut).getTime()) / 3600000;
+
+            const accessories: List.Item.Accessory[] = [];
+            if (gap && gap > 0) {
+              accessories.push({ icon: Icon.Pause, text: formatHours(gap), tooltip: "Gap before this session" });
+            }
+            if (!session.checkOut) {
+              accessories.push({ tag: { value: "Ongoing", color: Color.Green } });
+            }
+            accessories.push({ text: formatHours(session.workedHours) });
+
+            return (
+              <List.Item
+                key={session.id}
+                title={formatSession(session)}
+                icon={session.checkOut ? Icon.CheckCircle : Icon.Clock}
+                accessories={accessories}
+                actions={<ActionPanel>{commonActions}</ActionPanel>}
+              />
+            );
+          })}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
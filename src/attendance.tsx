@@ -2,12 +2,83 @@
  * Command to check current attendance status
  */
 
-import { Detail, ActionPanel, Action, Icon } from "@raycast/api";
+import { Detail, ActionPanel, Action, Icon, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
 import { useAttendance } from "./hooks/useAttendance";
-import { formatHours, formatTime, formatRelativeTime } from "./utils/odoo";
+import { HourTargetsForm } from "./components/HourTargetsForm";
+import { CheckOutForm } from "./components/CheckOutForm";
+import { AttendanceTimerPolicyForm } from "./components/AttendanceTimerPolicyForm";
+import {
+  HourProgress,
+  OvertimeBalance,
+  getHourProgress,
+  getOvertimeBalance,
+  getAttendanceTimerPolicy,
+  getTimerState,
+  formatHours,
+  formatProgress,
+  formatSignedHours,
+  formatTime,
+  formatRelativeTime,
+} from "./utils/odoo";
+import { stopTimerForCheckOut } from "./utils/coupling";
 
 export default function CheckAttendanceCommand() {
   const { state, loading, error, refresh, toggle } = useAttendance(true);
+  const { push } = useNavigation();
+  const [progress, setProgress] = useState<HourProgress | null>(null);
+  const [overtime, setOvertime] = useState<OvertimeBalance | null>(null);
+
+  useEffect(() => {
+    loadProgress();
+  }, []);
+
+  // Odoo recomputes overtime on check-in and check-out
+  useEffect(() => {
+    loadOvertime();
+  }, [state?.attendance_state]);
+
+  async function loadProgress() {
+    try {
+      setProgress(await getHourProgress());
+    } catch (err) {
+      // Progress is extra information - the attendance status still shows
+      console.error("Failed to load hour targets:", err);
+    }
+  }
+
+  async function loadOvertime() {
+    try {
+      setOvertime(await getOvertimeBalance());
+    } catch (err) {
+      // Overtime tracking is optional in Odoo
+      console.error("Failed to load overtime:", err);
+    }
+  }
+
+  // Apply the coupling policy to a running timer before checking out
+  async function handleCheckOut() {
+    try {
+      const [policy, timer] = await Promise.all([getAttendanceTimerPolicy(), getTimerState(false)]);
+      const mode = policy.stopTimerOnCheckOut;
+
+      if (timer?.timerId && mode !== "off") {
+        const description = timer.description && timer.description !== "/" ? timer.description : null;
+        if (mode === "ask" || !description) {
+          push(<CheckOutForm timer={timer} onCheckOut={toggle} />);
+          return;
+        }
+        if (!(await stopTimerForCheckOut(timer.timerId, description))) {
+          return;
+        }
+      }
+    } catch (err) {
+      // Checking out still works without the timer check
+      console.error("Failed to check running timer:", err);
+    }
+
+    await toggle();
+  }
 
   if (error) {
     return (
@@ -42,8 +113,23 @@ export default function CheckAttendanceCommand() {
     markdown += `**Employee:** ${state.employee_name}\n\n`;
   }
 
-  // Hours today
-  markdown += `**Hours Today:** ${formatHours(state.hours_today)}\n\n`;
+  // Hours today, against the target when known
+  if (progress) {
+    markdown += `**Hours Today:** ${formatProgress(state.hours_today, progress.targets.daily)}\n\n`;
+    markdown += `**Logged Today:** ${formatProgress(progress.loggedToday, progress.targets.daily)}\n\n`;
+    markdown += `**Logged This Week:** ${formatProgress(progress.loggedWeek, progress.targets.weekly)}\n\n`;
+    if (progress.targets.scheduleName) {
+      markdown += `_Targets from the ${progress.targets.scheduleName} working schedule_\n\n`;
+    }
+  } else {
+    markdown += `**Hours Today:** ${formatHours(state.hours_today)}\n\n`;
+  }
+
+  // Overtime balance
+  if (overtime) {
+    markdown += `**Overtime Balance:** ${formatSignedHours(overtime.balance)}\n\n`;
+    markdown += `**Overtime Today:** ${formatSignedHours(overtime.today)}\n\n`;
+  }
 
   // Last check-in
   if (state.last_check_in) {
@@ -73,10 +159,30 @@ export default function CheckAttendanceCommand() {
       markdown={markdown}
       actions={
         <ActionPanel>
-          <Action title={actionText} onAction={toggle} icon={isCheckedIn ? Icon.XMarkCircle : Icon.CheckCircle} />
+          <Action
+            title={actionText}
+            onAction={isCheckedIn ? handleCheckOut : toggle}
+            icon={isCheckedIn ? Icon.XMarkCircle : Icon.CheckCircle}
+          />
+          <Action.Push
+            title="Set Hour Targets"
+            icon={Icon.Goal}
+            target={<HourTargetsForm onSaved={loadProgress} />}
+            shortcut={{ modifiers: ["cmd"], key: "t" }}
+          />
+          <Action.Push
+            title="Link Timers and Attendance"
+            icon={Icon.Link}
+            target={<AttendanceTimerPolicyForm />}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+          />
           <Action
             title="Refresh"
-            onAction={() => refresh(false)}
+            onAction={() => {
+              refresh(false);
+              loadProgress();
+              loadOvertime();
+            }}
             icon={Icon.ArrowClockwise}
             shortcut={{ modifiers: ["cmd"], key: "r" }}
           />
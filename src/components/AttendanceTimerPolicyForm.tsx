@@ -0,0 +1,82 @@
+/**
+ * Form for choosing how attendance and timers follow each other
+ */
+
+import { Form, ActionPanel, Action, showToast, Toast, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import {
+  AttendanceTimerPolicy,
+  CouplingMode,
+  getAttendanceTimerPolicy,
+  saveAttendanceTimerPolicy,
+} from "../utils/odoo";
+
+const MODE_TITLES: Record<CouplingMode, string> = {
+  off: "Do Nothing",
+  ask: "Ask Me",
+  always: "Always",
+};
+
+export function AttendanceTimerPolicyForm() {
+  const { pop } = useNavigation();
+  const [policy, setPolicy] = useState<AttendanceTimerPolicy | null>(null);
+
+  useEffect(() => {
+    getAttendanceTimerPolicy().then(setPolicy);
+  }, []);
+
+  async function handleSubmit(values: AttendanceTimerPolicy) {
+    try {
+      await saveAttendanceTimerPolicy(values);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Settings Saved",
+      });
+
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to save settings",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return (
+    <Form
+      isLoading={!policy}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Settings" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      {policy && (
+        <>
+          <Form.Dropdown
+            id="checkInOnTimerStart"
+            title="Check In on Timer Start"
+            defaultValue={policy.checkInOnTimerStart}
+            info="When you start a timer while checked out. The menu bar never asks."
+          >
+            {(Object.keys(MODE_TITLES) as CouplingMode[]).map((mode) => (
+              <Form.Dropdown.Item key={mode} value={mode} title={MODE_TITLES[mode]} />
+            ))}
+          </Form.Dropdown>
+          <Form.Dropdown
+            id="stopTimerOnCheckOut"
+            title="Stop Timer on Check-Out"
+            defaultValue={policy.stopTimerOnCheckOut}
+            info="When you check out with a timer running. A timer without a description always asks for one."
+          >
+            {(Object.keys(MODE_TITLES) as CouplingMode[]).map((mode) => (
+              <Form.Dropdown.Item key={mode} value={mode} title={MODE_TITLES[mode]} />
+            ))}
+          </Form.Dropdown>
+        </>
+      )}
+    </Form>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * Form shown when checking out while a timer runs: stop it with a description or keep it running.
+ * Either way the check-out follows.
+ */
+
+import { Form, ActionPanel, Action, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { TimerState } from "../utils/odoo";
+import { stopTimerForCheckOut } from "../utils/coupling";
+
+interface CheckOutFormProps {
+  timer: TimerState;
+  onCheckOut: () => Promise<void>;
+}
+
+export function CheckOutForm({ timer, onCheckOut }: CheckOutFormProps) {
+  const { pop } = useNavigation();
+
+  async function handleStopAndCheckOut(values: { description: string }) {
+    const description = values.description.trim();
+    if (!description) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Description Required",
+        message: "Please describe what you worked on",
+      });
+      return;
+    }
+
+    if (!timer.timerId || !(await stopTimerForCheckOut(timer.timerId, description))) {
+      return;
+    }
+
+    pop();
+    await onCheckOut();
+  }
+
+  async function handleKeepRunning() {
+    pop();
+    await onCheckOut();
+  }
+
+  return (
+    <Form
+      navigationTitle="Check Out"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Stop Timer First" icon={Icon.Stop} onSubmit={handleStopAndCheckOut} />
+          <Action title="Keep Timer Running" icon={Icon.Play} onAction={handleKeepRunning} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        title="Timer Running"
+        text={`${timer.projectName || "No project"} — ${timer.taskName || "No task"}`}
+      />
+      <Form.TextArea
+        id="description"
+        title="Description"
+        placeholder="What did you work on?"
+        defaultValue={timer.description && timer.description !== "/" ? timer.description : ""}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * Search bar dropdown for picking the date range of a list
+ */
+
+import { List } from "@raycast/api";
+import { DateRangeOption, DATE_RANGE_TITLES } from "../utils/odoo";
+
+interface DateRangeDropdownProps {
+  options: DateRangeOption[];
+  value: DateRangeOption;
+  onChange: (option: DateRangeOption) => void;
+}
+
+export function DateRangeDropdown({ options, value, onChange }: DateRangeDropdownProps) {
+  return (
+    <List.Dropdown tooltip="Date Range" value={value} onChange={(option) => onChange(option as DateRangeOption)}>
+      {options.map((option) => (
+        <List.Dropdown.Item key={option} value={option} title={DATE_RANGE_TITLES[option]} />
+      ))}
+    </List.Dropdown>
+  );
+}
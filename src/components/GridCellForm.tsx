@@ -0,0 +1,173 @@
+/**
+ * Forms for setting the hours of a cell in the weekly timesheet grid
+ */
+
+import { Form, ActionPanel, Action, showToast, Toast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { TaskSelector } from "./TaskSelector";
+import {
+  setTimesheetGridCell,
+  parseDuration,
+  formatDurationInput,
+  formatHours,
+  formatDayTitle,
+  parseOdooDate,
+  SessionExpiredError,
+} from "../utils/odoo";
+import { handleSessionExpired } from "../utils/session";
+
+interface GridCellValues {
+  day: string;
+  hours: string;
+}
+
+// An empty cell shows an empty field rather than "0:00"
+function cellInput(hours: number): string {
+  return Math.round(hours * 60) > 0 ? formatDurationInput(hours) : "";
+}
+
+/**
+ * Parse and save a cell, returning whether it worked
+ */
+async function saveCell(projectId: number, taskId: number | null, values: GridCellValues): Promise<boolean> {
+  // An empty field clears the cell
+  const hours = values.hours.trim() ? parseDuration(values.hours) : 0;
+  if (hours === null || hours < 0) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Invalid Duration",
+      message: "Use a format like 1:30, 1.5 or 90m",
+    });
+    return false;
+  }
+
+  try {
+    await showToast({
+      style: Toast.Style.Animated,
+      title: "Saving hours...",
+    });
+
+    await setTimesheetGridCell(projectId, taskId, parseOdooDate(values.day), hours);
+
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Hours Saved",
+      message: `${formatHours(hours)} on ${formatDayTitle(values.day)}`,
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof SessionExpiredError) {
+      await handleSessionExpired();
+      return false;
+    }
+
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to save hours",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+    return false;
+  }
+}
+
+interface GridCellFormProps {
+  projectId: number;
+  projectName: string;
+  taskId: number | null;
+  taskName: string | null;
+  days: string[];
+  hours: number[];
+  initialDay: string;
+  onSaved: () => void;
+}
+
+/**
+ * Set the hours of an existing row on one day of the week
+ */
+export function GridCellForm({
+  projectId,
+  projectName,
+  taskId,
+  taskName,
+  days,
+  hours,
+  initialDay,
+  onSaved,
+}: GridCellFormProps) {
+  const { pop } = useNavigation();
+  const [day, setDay] = useState(initialDay);
+  const [hoursInput, setHoursInput] = useState(() => cellInput(hours[days.indexOf(initialDay)] ?? 0));
+
+  // Show the hours already logged on the chosen day, so saving as is keeps them
+  function handleDayChange(newDay: string) {
+    setDay(newDay);
+    setHoursInput(cellInput(hours[days.indexOf(newDay)] ?? 0));
+  }
+
+  async function handleSubmit(values: GridCellValues) {
+    if (await saveCell(projectId, taskId, values)) {
+      onSaved();
+      pop();
+    }
+  }
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Hours" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title={projectName} text={taskName || "No task"} />
+      <Form.Dropdown id="day" title="Day" value={day} onChange={handleDayChange}>
+        {days.map((option, index) => (
+          <Form.Dropdown.Item
+            key={option}
+            value={option}
+            title={`${formatDayTitle(option)} (${formatHours(hours[index] ?? 0)})`}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField
+        id="hours"
+        title="Hours"
+        value={hoursInput}
+        onChange={setHoursInput}
+        placeholder="e.g. 1:30, 1.5 or 90m"
+        info="The total for the day. Leave empty to clear it."
+      />
+    </Form>
+  );
+}
+
+interface AddGridRowFormProps {
+  days: string[];
+  initialDay: string;
+  onSaved: () => void;
+}
+
+/**
+ * Log hours on a project and task that is not in the grid yet
+ */
+export function AddGridRowForm({ days, initialDay, onSaved }: AddGridRowFormProps) {
+  const { pop } = useNavigation();
+
+  async function handleSubmit(projectId: number, taskId: number, formValues: Form.Values) {
+    if (await saveCell(projectId, taskId, formValues as GridCellValues)) {
+      onSaved();
+      pop();
+    }
+  }
+
+  return (
+    <TaskSelector onSubmit={handleSubmit} submitTitle="Add Hours" description="Add a row to the weekly timesheet">
+      <Form.Dropdown id="day" title="Day" defaultValue={initialDay}>
+        {days.map((day) => (
+          <Form.Dropdown.Item key={day} value={day} title={formatDayTitle(day)} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField id="hours" title="Hours" placeholder="e.g. 1:30, 1.5 or 90m" />
+    </TaskSelector>
+  );
+}
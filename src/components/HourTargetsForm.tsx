@@ -0,0 +1,141 @@
+/**
+ * Form for setting the daily and weekly hour targets
+ */
+
+import { Form, ActionPanel, Action, showToast, Toast, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import {
+  HourTargetSettings,
+  WorkingSchedule,
+  getHourTargetSettings,
+  saveHourTargetSettings,
+  getWorkingSchedule,
+  parseDuration,
+  formatDurationInput,
+  formatHours,
+} from "../utils/odoo";
+
+interface HourTargetsFormProps {
+  onSaved: () => void;
+}
+
+interface TargetFormValues {
+  useSchedule: boolean;
+  dailyHours: string;
+  weeklyHours: string;
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+function describeSchedule(schedule: WorkingSchedule): string {
+  return schedule.weeks
+    .map((week) =>
+      week
+        .map((hours, day) => (hours > 0 ? `${WEEKDAYS[day]} ${formatHours(hours)}` : null))
+        .filter(Boolean)
+        .join(", "),
+    )
+    .join(" / ");
+}
+
+export function HourTargetsForm({ onSaved }: HourTargetsFormProps) {
+  const { pop } = useNavigation();
+  const [settings, setSettings] = useState<HourTargetSettings | null>(null);
+  const [schedule, setSchedule] = useState<WorkingSchedule | null | undefined>(undefined);
+  const [useSchedule, setUseSchedule] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+    loadSchedule();
+  }, []);
+
+  async function loadSettings() {
+    const stored = await getHourTargetSettings();
+    setSettings(stored);
+    setUseSchedule(stored.useSchedule);
+  }
+
+  async function loadSchedule() {
+    try {
+      setSchedule(await getWorkingSchedule());
+    } catch (error) {
+      // The manual targets still work without it
+      console.error("Failed to load working schedule:", error);
+      setSchedule(null);
+    }
+  }
+
+  async function handleSubmit(values: TargetFormValues) {
+    const dailyHours = parseDuration(values.dailyHours);
+    const weeklyHours = parseDuration(values.weeklyHours);
+    if (dailyHours === null || weeklyHours === null) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Target",
+        message: "Use a format like 7:30, 7.5 or 40h",
+      });
+      return;
+    }
+
+    try {
+      await saveHourTargetSettings({ useSchedule: values.useSchedule, dailyHours, weeklyHours });
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Targets Saved",
+        message: values.useSchedule ? "Using your working schedule" : `${formatHours(dailyHours)} a day`,
+      });
+
+      onSaved();
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to save targets",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return (
+    <Form
+      isLoading={!settings || schedule === undefined}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Targets" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      {settings && (
+        <>
+          <Form.Checkbox
+            id="useSchedule"
+            label="Use my working schedule from Odoo"
+            value={useSchedule}
+            onChange={setUseSchedule}
+            info="Targets follow the working hours set on your employee. The manual targets apply if it can't be read."
+          />
+          {useSchedule && (
+            <Form.Description
+              title={schedule?.name ?? "Schedule"}
+              text={schedule ? describeSchedule(schedule) : "No working schedule found"}
+            />
+          )}
+          <Form.TextField
+            id="dailyHours"
+            title="Daily Target"
+            defaultValue={formatDurationInput(settings.dailyHours)}
+            placeholder="e.g. 8:00"
+            info="Applies Monday to Friday"
+          />
+          <Form.TextField
+            id="weeklyHours"
+            title="Weekly Target"
+            defaultValue={formatDurationInput(settings.weeklyHours)}
+            placeholder="e.g. 40:00"
+          />
+        </>
+      )}
+    </Form>
+  );
+}
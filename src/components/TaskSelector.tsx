@@ -2,30 +2,76 @@
  * Reusable component for selecting projects and tasks with search and inline creation
  */
 
-import { Form, ActionPanel, Action, showToast, Toast } from "@raycast/api";
-import { useState, useEffect } from "react";
-import { Project, Task, getProjects, getTasks, createTask } from "../utils/odoo";
+import { Form, ActionPanel, Action, Icon, showToast, Toast } from "@raycast/api";
+import { useState, useEffect, ReactNode } from "react";
+import {
+  Project,
+  Task,
+  TimesheetEntry,
+  TaskShortcut,
+  TaskShortcuts,
+  getProjects,
+  getTasks,
+  createTask,
+  getRecentTimesheetEntries,
+  getTaskShortcuts,
+  pinTask,
+  unpinTask,
+  truncate,
+} from "../utils/odoo";
+
+// Add known items (favorites, recent, preselected) that the search results don't include
+function withKnownItems<T extends { id: number; name: string }>(items: T[], known: T[]): T[] {
+  const missing = known.filter(
+    (k, index) => !items.some((item) => item.id === k.id) && known.findIndex((other) => other.id === k.id) === index,
+  );
+  return missing.length > 0 ? [...missing, ...items] : items;
+}
 
 interface TaskSelectorProps {
-  onSubmit: (projectId: number, taskId: number) => void;
+  onSubmit: (projectId: number, taskId: number, values: Form.Values) => void;
   initialProjectId?: number | null;
   initialTaskId?: number | null;
+  initialProjectName?: string | null;
+  initialTaskName?: string | null;
+  submitTitle?: string;
+  description?: string;
+  children?: ReactNode; // Extra form fields shown below the project and task
+  onResume?: (entry: TimesheetEntry) => void; // Offer recent entries to continue
+  actions?: ReactNode; // Extra actions shown after the submit action
 }
 
-export function TaskSelector({ onSubmit, initialProjectId, initialTaskId }: TaskSelectorProps) {
+export function TaskSelector({
+  onSubmit,
+  initialProjectId,
+  initialTaskId,
+  initialProjectName,
+  initialTaskName,
+  submitTitle = "Start Tracking",
+  description = "Select a project and task to start tracking",
+  children,
+  onResume,
+  actions,
+}: TaskSelectorProps) {
   const [projects, setProjects] = useState<Project[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [selectedProjectId, setSelectedProjectId] = useState<string>(initialProjectId?.toString() || "");
   const [selectedTaskId, setSelectedTaskId] = useState<string>(initialTaskId?.toString() || "");
-  const [, setProjectSearch] = useState<string>("");
+  const [projectSearch, setProjectSearch] = useState<string>("");
   const [taskSearch, setTaskSearch] = useState<string>("");
   const [isLoadingProjects, setIsLoadingProjects] = useState(true);
   const [isLoadingTasks, setIsLoadingTasks] = useState(false);
   const [isCreatingTask, setIsCreatingTask] = useState(false);
+  const [recentEntries, setRecentEntries] = useState<TimesheetEntry[]>([]);
+  const [shortcuts, setShortcuts] = useState<TaskShortcuts>({ favorites: [], recent: [] });
 
-  // Load projects on mount
+  // Load projects and shortcuts (and recent entries when resuming is offered) on mount
   useEffect(() => {
     loadProjects();
+    loadShortcuts();
+    if (onResume) {
+      loadRecentEntries();
+    }
   }, []);
 
   // Load tasks when project changes
@@ -69,6 +115,64 @@ export function TaskSelector({ onSubmit, initialProjectId, initialTaskId }: Task
     }
   }
 
+  async function loadShortcuts() {
+    try {
+      setShortcuts(await getTaskShortcuts());
+    } catch (error) {
+      console.error("Failed to load favorites:", error);
+    }
+  }
+
+  async function handleTogglePin() {
+    const projectId = parseInt(selectedProjectId);
+    const taskId = parseInt(selectedTaskId);
+    const pinned = isPinned;
+
+    try {
+      if (pinned) {
+        await unpinTask(projectId, taskId);
+      } else {
+        const project = projectOptions.find((p) => p.id === projectId);
+        const task = taskOptions.find((t) => t.id === taskId);
+        await pinTask({
+          projectId,
+          projectName: project?.name ?? "",
+          taskId,
+          taskName: task?.name ?? "",
+          description: allShortcuts.find((s) => s.projectId === projectId && s.taskId === taskId)?.description ?? null,
+        });
+      }
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: pinned ? "Removed from Favorites" : "Added to Favorites",
+      });
+      await loadShortcuts();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to update favorites",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  function handleShortcutChange(value: string) {
+    if (!value) return;
+    const [projectId, taskId] = value.split(":");
+    setSelectedProjectId(projectId);
+    setSelectedTaskId(taskId);
+  }
+
+  async function loadRecentEntries() {
+    try {
+      setRecentEntries(await getRecentTimesheetEntries());
+    } catch (error) {
+      // Resuming is a shortcut - the form still works without it
+      console.error("Failed to load recent entries:", error);
+    }
+  }
+
   async function handleCreateTask() {
     if (!selectedProjectId) {
       await showToast({
@@ -127,7 +231,7 @@ export function TaskSelector({ onSubmit, initialProjectId, initialTaskId }: Task
     setSelectedTaskId(value);
   }
 
-  function handleSubmit() {
+  function handleSubmit(values: Form.Values) {
     if (!selectedProjectId) {
       showToast({
         style: Toast.Style.Failure,
@@ -146,19 +250,109 @@ export function TaskSelector({ onSubmit, initialProjectId, initialTaskId }: Task
       return;
     }
 
-    onSubmit(parseInt(selectedProjectId), parseInt(selectedTaskId));
+    onSubmit(parseInt(selectedProjectId), parseInt(selectedTaskId), values);
   }
 
+  // Favorites, recent pairs and the preselected pair stay selectable whatever the search returned
+  const allShortcuts: TaskShortcut[] = [...shortcuts.favorites, ...shortcuts.recent];
+  const knownPairs = [
+    ...allShortcuts,
+    ...(initialProjectId && initialProjectName && initialTaskId && initialTaskName
+      ? [
+          {
+            projectId: initialProjectId,
+            projectName: initialProjectName,
+            taskId: initialTaskId,
+            taskName: initialTaskName,
+          },
+        ]
+      : []),
+  ];
+  const projectOptions = withKnownItems(
+    projects,
+    knownPairs
+      .filter((pair) => !projectSearch || pair.projectId.toString() === selectedProjectId)
+      .map((pair) => ({ id: pair.projectId, name: pair.projectName })),
+  );
+  const taskOptions = withKnownItems(
+    tasks,
+    knownPairs
+      .filter((pair) => pair.projectId.toString() === selectedProjectId)
+      .filter((pair) => !taskSearch || pair.taskId.toString() === selectedTaskId)
+      .map((pair) => ({ id: pair.taskId, name: pair.taskName })),
+  );
+
+  const selectedPair = `${selectedProjectId}:${selectedTaskId}`;
+  const isPinned = shortcuts.favorites.some((f) => `${f.projectId}:${f.taskId}` === selectedPair);
+
   return (
     <Form
       isLoading={isLoadingProjects || isLoadingTasks || isCreatingTask}
       actions={
         <ActionPanel>
-          <Action.SubmitForm title="Start Tracking" onSubmit={handleSubmit} />
+          <Action.SubmitForm title={submitTitle} onSubmit={handleSubmit} />
+          {onResume && recentEntries.length > 0 && (
+            <ActionPanel.Submenu
+              title="Resume Recent Entry"
+              icon={Icon.ArrowCounterClockwise}
+              shortcut={{ modifiers: ["cmd"], key: "e" }}
+            >
+              {recentEntries.map((entry) => (
+                <Action
+                  key={entry.id}
+                  title={
+                    entry.description
+                      ? `${truncate(entry.description, 40)} (${entry.taskName})`
+                      : `${entry.projectName} — ${entry.taskName}`
+                  }
+                  icon={Icon.Play}
+                  onAction={() => onResume(entry)}
+                />
+              ))}
+            </ActionPanel.Submenu>
+          )}
+          {selectedProjectId && selectedTaskId && (
+            <Action
+              title={isPinned ? "Remove from Favorites" : "Add to Favorites"}
+              icon={isPinned ? Icon.StarDisabled : Icon.Star}
+              onAction={handleTogglePin}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+            />
+          )}
+          {actions}
         </ActionPanel>
       }
-      searchBarAccessory={<Form.Description text="Select a project and task to start tracking" />}
+      searchBarAccessory={<Form.Description text={description} />}
     >
+      {allShortcuts.length > 0 && (
+        <Form.Dropdown
+          id="shortcut"
+          title="Quick Pick"
+          value={allShortcuts.some((pair) => `${pair.projectId}:${pair.taskId}` === selectedPair) ? selectedPair : ""}
+          onChange={handleShortcutChange}
+        >
+          <Form.Dropdown.Item value="" title="Favorites and recent tasks..." />
+          {[
+            { title: "Favorites", items: shortcuts.favorites, icon: Icon.Star },
+            { title: "Recent", items: shortcuts.recent, icon: Icon.Clock },
+          ].map(
+            (section) =>
+              section.items.length > 0 && (
+                <Form.Dropdown.Section key={section.title} title={section.title}>
+                  {section.items.map((pair) => (
+                    <Form.Dropdown.Item
+                      key={`${pair.projectId}:${pair.taskId}`}
+                      value={`${pair.projectId}:${pair.taskId}`}
+                      title={`${pair.projectName} — ${pair.taskName}`}
+                      icon={section.icon}
+                    />
+                  ))}
+                </Form.Dropdown.Section>
+              ),
+          )}
+        </Form.Dropdown>
+      )}
+
       <Form.Dropdown
         id="project"
         title="Project"
@@ -171,7 +365,7 @@ export function TaskSelector({ onSubmit, initialProjectId, initialTaskId }: Task
         throttle
       >
         <Form.Dropdown.Item value="" title="Select a project..." />
-        {projects.map((project) => (
+        {projectOptions.map((project) => (
           <Form.Dropdown.Item key={project.id} value={project.id.toString()} title={project.name} />
         ))}
       </Form.Dropdown>
@@ -191,12 +385,14 @@ export function TaskSelector({ onSubmit, initialProjectId, initialTaskId }: Task
           throttle
         >
           <Form.Dropdown.Item value="" title="Select a task..." />
-          {tasks.map((task) => (
+          {taskOptions.map((task) => (
             <Form.Dropdown.Item key={task.id} value={task.id.toString()} title={task.name} />
           ))}
           {taskSearch.trim() && <Form.Dropdown.Item value="__create__" title={`Create "${taskSearch.trim()}"`} />}
         </Form.Dropdown>
       )}
+
+      {children}
     </Form>
   );
 }
@@ -0,0 +1,92 @@
+/**
+ * Form for editing an existing timesheet entry
+ */
+
+import { Form, showToast, Toast, useNavigation } from "@raycast/api";
+import { TaskSelector } from "./TaskSelector";
+import {
+  TimesheetEntry,
+  updateTimesheetEntry,
+  getTimesheetEntryChanges,
+  parseDuration,
+  formatDurationInput,
+  formatHours,
+} from "../utils/odoo";
+
+interface TimesheetEntryFormProps {
+  entry: TimesheetEntry;
+  onSaved: () => void;
+}
+
+interface EntryFormValues {
+  duration: string;
+  description: string;
+}
+
+export function TimesheetEntryForm({ entry, onSaved }: TimesheetEntryFormProps) {
+  const { pop } = useNavigation();
+
+  async function handleSubmit(projectId: number, taskId: number, formValues: Form.Values) {
+    const values = formValues as EntryFormValues;
+
+    const hours = parseDuration(values.duration);
+    if (hours === null || hours <= 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Duration",
+        message: "Use a format like 1:30, 1.5 or 90m",
+      });
+      return;
+    }
+
+    try {
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Saving entry...",
+      });
+
+      const changes = getTimesheetEntryChanges(entry, {
+        projectId,
+        taskId,
+        hours,
+        description: values.description.trim(),
+      });
+      await updateTimesheetEntry(entry.id, changes);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Entry Updated",
+        message: formatHours(changes.hours ?? entry.hours),
+      });
+
+      onSaved();
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to update entry",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return (
+    <TaskSelector
+      onSubmit={handleSubmit}
+      initialProjectId={entry.projectId}
+      initialTaskId={entry.taskId}
+      initialProjectName={entry.projectName}
+      initialTaskName={entry.taskName}
+      submitTitle="Save Changes"
+      description={`Edit entry from ${entry.date}`}
+    >
+      <Form.TextField
+        id="duration"
+        title="Duration"
+        defaultValue={formatDurationInput(entry.hours)}
+        placeholder="e.g. 1:30, 1.5 or 90m"
+      />
+      <Form.TextArea id="description" title="Description" defaultValue={entry.description} />
+    </TaskSelector>
+  );
+}
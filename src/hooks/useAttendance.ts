@@ -4,8 +4,19 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { showToast, Toast } from "@raycast/api";
-import { AttendanceState, SessionExpiredError, getAttendanceStatus, toggleCheckInOut, logout } from "../utils/odoo";
+import {
+  AttendanceState,
+  AttendanceMismatchError,
+  SessionExpiredError,
+  isOfflineError,
+  getAttendanceStatus,
+  checkIn,
+  checkOut,
+  formatHours,
+} from "../utils/odoo";
 import { ensureInitialized } from "../init";
+import { handleSessionExpired } from "../utils/session";
+import { saveForLater } from "../utils/offline";
 
 interface UseAttendanceResult {
   state: AttendanceState | null;
@@ -33,12 +44,7 @@ export function useAttendance(autoRefresh = true): UseAttendanceResult {
       setState(newState);
     } catch (err) {
       if (err instanceof SessionExpiredError) {
-        await logout();
-        await showToast({
-          style: Toast.Style.Failure,
-          title: "Session Expired",
-          message: "Please login again",
-        });
+        await handleSessionExpired();
         setError(err);
       } else if (err instanceof Error) {
         setError(err);
@@ -53,31 +59,49 @@ export function useAttendance(autoRefresh = true): UseAttendanceResult {
     }
   }, []);
 
+  // Acts on the state shown to the user: a stale state is reported instead of flipping the wrong way
   const toggle = useCallback(async () => {
+    const checkingIn = state?.attendance_state !== "checked_in";
+
     try {
       await showToast({
         style: Toast.Style.Animated,
-        title: "Updating attendance...",
+        title: checkingIn ? "Checking in..." : "Checking out...",
       });
 
-      const newState = await toggleCheckInOut();
-      setState(newState);
+      const result = checkingIn ? await checkIn() : await checkOut();
+      setState(result.state);
+
+      if (!result.changed) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: checkingIn ? "Already Checked In" : "Already Checked Out",
+          message: "Odoo had a different state than shown - nothing was changed",
+        });
+        return;
+      }
 
       await showToast({
         style: Toast.Style.Success,
-        title: newState.attendance_state === "checked_in" ? "Checked In" : "Checked Out",
-        message:
-          newState.attendance_state === "checked_in"
-            ? "You are now checked in"
-            : `Checked out - ${newState.hours_today}h worked today`,
+        title: checkingIn ? "Checked In" : "Checked Out",
+        message: checkingIn
+          ? "You are now checked in"
+          : `Checked out - ${formatHours(result.state.hours_today)} worked today`,
       });
     } catch (err) {
       if (err instanceof SessionExpiredError) {
-        await logout();
+        await handleSessionExpired();
+      } else if (isOfflineError(err)) {
+        await saveForLater(
+          { type: checkingIn ? "check_in" : "check_out" },
+          checkingIn ? "The check-in" : "The check-out",
+        );
+      } else if (err instanceof AttendanceMismatchError) {
+        setState(err.actual);
         await showToast({
           style: Toast.Style.Failure,
-          title: "Session Expired",
-          message: "Please login again",
+          title: "Attendance Not Updated",
+          message: err.message,
         });
       } else if (err instanceof Error) {
         await showToast({
@@ -87,7 +111,7 @@ export function useAttendance(autoRefresh = true): UseAttendanceResult {
         });
       }
     }
-  }, []);
+  }, [state]);
 
   useEffect(() => {
     refresh(true);
@@ -6,14 +6,18 @@ import { useState, useEffect, useCallback } from "react";
 import { showToast, Toast } from "@raycast/api";
 import {
   TimerState,
+  TimerStopResult,
   SessionExpiredError,
   startTimer,
   updateTimer,
   stopTimer,
+  pauseTimer,
+  resumeTimer,
   getRunningTimer,
-  logout,
 } from "../utils/odoo";
 import { ensureInitialized } from "../init";
+import { handleSessionExpired } from "../utils/session";
+import { checkInForTimer } from "../utils/coupling";
 
 interface UseTimesheetResult {
   state: TimerState | null;
@@ -22,7 +26,9 @@ interface UseTimesheetResult {
   refresh: (useCache?: boolean) => Promise<void>;
   start: () => Promise<{ timerId: number; startTime: string }>;
   update: (timerId: number, projectId?: number, taskId?: number, description?: string) => Promise<void>;
-  stop: (timerId: number) => Promise<{ duration: number }>;
+  stop: (timerId: number) => Promise<TimerStopResult>;
+  pause: (timerId: number) => Promise<void>;
+  resume: (timerId: number) => Promise<void>;
 }
 
 /**
@@ -43,12 +49,7 @@ export function useTimesheet(autoRefresh = true): UseTimesheetResult {
       setState(newState);
     } catch (err) {
       if (err instanceof SessionExpiredError) {
-        await logout();
-        await showToast({
-          style: Toast.Style.Failure,
-          title: "Session Expired",
-          message: "Please login again",
-        });
+        await handleSessionExpired();
         setError(err);
       } else if (err instanceof Error) {
         setError(err);
@@ -77,6 +78,7 @@ export function useTimesheet(autoRefresh = true): UseTimesheetResult {
         title: "Timer Started",
         message: "Now select project and task",
       });
+      await checkInForTimer();
 
       // Refresh state
       await refresh(false);
@@ -109,12 +111,7 @@ export function useTimesheet(autoRefresh = true): UseTimesheetResult {
         await refresh(false);
       } catch (err) {
         if (err instanceof SessionExpiredError) {
-          await logout();
-          await showToast({
-            style: Toast.Style.Failure,
-            title: "Session Expired",
-            message: "Please login again",
-          });
+          await handleSessionExpired();
         } else if (err instanceof Error) {
           await showToast({
             style: Toast.Style.Failure,
@@ -141,7 +138,7 @@ export function useTimesheet(autoRefresh = true): UseTimesheetResult {
         await showToast({
           style: Toast.Style.Success,
           title: "Timer Stopped",
-          message: `Logged ${Math.round(result.duration / 60)} minutes`,
+          message: `Logged ${Math.round(result.duration / 60)} minutes${result.minimumApplied ? " (minimum duration)" : ""}`,
         });
 
         // Refresh state
@@ -150,16 +147,67 @@ export function useTimesheet(autoRefresh = true): UseTimesheetResult {
         return result;
       } catch (err) {
         if (err instanceof SessionExpiredError) {
-          await logout();
+          await handleSessionExpired();
+        } else if (err instanceof Error) {
           await showToast({
             style: Toast.Style.Failure,
-            title: "Session Expired",
-            message: "Please login again",
+            title: "Failed to stop timer",
+            message: err.message,
           });
+        }
+        throw err;
+      }
+    },
+    [refresh],
+  );
+
+  const pause = useCallback(
+    async (timerId: number) => {
+      try {
+        await pauseTimer(timerId);
+
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Timer Paused",
+        });
+
+        // Refresh state
+        await refresh(false);
+      } catch (err) {
+        if (err instanceof SessionExpiredError) {
+          await handleSessionExpired();
         } else if (err instanceof Error) {
           await showToast({
             style: Toast.Style.Failure,
-            title: "Failed to stop timer",
+            title: "Failed to pause timer",
+            message: err.message,
+          });
+        }
+        throw err;
+      }
+    },
+    [refresh],
+  );
+
+  const resume = useCallback(
+    async (timerId: number) => {
+      try {
+        await resumeTimer(timerId);
+
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Timer Resumed",
+        });
+
+        // Refresh state
+        await refresh(false);
+      } catch (err) {
+        if (err instanceof SessionExpiredError) {
+          await handleSessionExpired();
+        } else if (err instanceof Error) {
+          await showToast({
+            style: Toast.Style.Failure,
+            title: "Failed to resume timer",
             message: err.message,
           });
         }
@@ -179,5 +227,5 @@ export function useTimesheet(autoRefresh = true): UseTimesheetResult {
     }
   }, [refresh, autoRefresh, state?.timerId]);
 
-  return { state, loading, error, refresh, start, update, stop };
+  return { state, loading, error, refresh, start, update, stop, pause, resume };
 }
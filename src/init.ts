@@ -3,7 +3,7 @@
  * Call ensureInitialized() before using any Odoo API functions.
  */
 
-import { initStorage } from "./utils/odoo";
+import { initStorage, initCredentialStorage } from "./utils/odoo";
 import { raycastStorage } from "./adapters/raycast-storage";
 
 let initialized = false;
@@ -11,6 +11,8 @@ let initialized = false;
 export function ensureInitialized(): void {
   if (!initialized) {
     initStorage(raycastStorage);
+    // Raycast LocalStorage is encrypted at rest, so it can hold saved passwords
+    initCredentialStorage(raycastStorage);
     initialized = true;
   }
 }
@@ -0,0 +1,130 @@
+/**
+ * Command to log time for past work without running a timer
+ */
+
+import { Form, showToast, Toast, launchCommand, LaunchType, popToRoot } from "@raycast/api";
+import { useEffect } from "react";
+import { TaskSelector } from "./components/TaskSelector";
+import {
+  createTimesheetEntry,
+  hasActiveSession,
+  parseDuration,
+  formatHours,
+  userToday,
+  toOdooDate,
+  findTaskShortcut,
+  isOfflineError,
+  SessionExpiredError,
+} from "./utils/odoo";
+import { ensureInitialized } from "./init";
+import { handleSessionExpired } from "./utils/session";
+import { saveForLater } from "./utils/offline";
+
+interface LogTimeFormValues {
+  date: Date | null;
+  duration: string;
+  description: string;
+}
+
+export default function LogTimeCommand() {
+  ensureInitialized();
+
+  // Check authentication on mount
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  async function checkAuth() {
+    const isLoggedIn = await hasActiveSession();
+    if (!isLoggedIn) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Not Logged In",
+        message: "Please login first",
+      });
+      await launchCommand({ name: "login", type: LaunchType.UserInitiated });
+    }
+  }
+
+  async function handleSubmit(projectId: number, taskId: number, formValues: Form.Values) {
+    const values = formValues as LogTimeFormValues;
+
+    const hours = parseDuration(values.duration);
+    if (hours === null || hours <= 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Duration",
+        message: "Use a format like 1:30, 1.5 or 90m",
+      });
+      return;
+    }
+
+    const description = values.description.trim();
+    if (!description) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Description Required",
+        message: "Please describe what you worked on",
+      });
+      return;
+    }
+
+    const date = values.date ?? userToday();
+
+    try {
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Logging time...",
+      });
+
+      await createTimesheetEntry(projectId, taskId, date, hours, description);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Time Logged",
+        message: `${formatHours(hours)} on ${date.toLocaleDateString([], { month: "short", day: "numeric" })}`,
+      });
+
+      await popToRoot();
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        await handleSessionExpired();
+        return;
+      }
+
+      if (isOfflineError(error)) {
+        const shortcut = await findTaskShortcut(projectId, taskId);
+        await saveForLater(
+          {
+            type: "log_time",
+            projectId,
+            projectName: shortcut?.projectName ?? null,
+            taskId,
+            taskName: shortcut?.taskName ?? null,
+            date: toOdooDate(date),
+            hours,
+            description,
+          },
+          "The entry",
+        );
+        await popToRoot();
+        return;
+      }
+
+      console.error("Failed to log time:", error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to log time",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return (
+    <TaskSelector onSubmit={handleSubmit} submitTitle="Log Time" description="Log time for work you already did">
+      <Form.DatePicker id="date" title="Date" type={Form.DatePicker.Type.Date} defaultValue={userToday()} />
+      <Form.TextField id="duration" title="Duration" placeholder="e.g. 1:30, 1.5 or 90m" />
+      <Form.TextArea id="description" title="Description" placeholder="What did you work on?" />
+    </TaskSelector>
+  );
+}
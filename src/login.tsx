@@ -3,14 +3,31 @@
  */
 
 import { Form, ActionPanel, Action, showToast, Toast, popToRoot } from "@raycast/api";
-import { useState } from "react";
-import { login, OdooClient } from "./utils/odoo";
+import { useEffect, useState } from "react";
+import {
+  login,
+  loginWithApiKey,
+  completeTotpLogin,
+  lookupDatabases,
+  OdooClient,
+  TwoFactorRequiredError,
+} from "./utils/odoo";
+import type { AuthMethod, TotpChallenge } from "./utils/odoo";
 import { ensureInitialized } from "./init";
 
 interface LoginFormValues {
   baseUrl: string;
+  database: string;
+  authMethod: AuthMethod;
   username: string;
-  password: string;
+  profile: string;
+  password?: string;
+  rememberCredentials?: boolean;
+  apiKey?: string;
+}
+
+interface TotpFormValues {
+  code: string;
 }
 
 export default function LoginCommand() {
@@ -18,6 +35,43 @@ export default function LoginCommand() {
 
   const [isLoading, setIsLoading] = useState(false);
   const [urlError, setUrlError] = useState<string | undefined>();
+  const [databaseError, setDatabaseError] = useState<string | undefined>();
+  const [authMethod, setAuthMethod] = useState<AuthMethod>("password");
+  const [totpChallenge, setTotpChallenge] = useState<TotpChallenge | null>(null);
+  const [codeError, setCodeError] = useState<string | undefined>();
+  const [baseUrl, setBaseUrl] = useState("");
+  const [databases, setDatabases] = useState<string[]>([]);
+  const [database, setDatabase] = useState("");
+  const [isLoadingDatabases, setIsLoadingDatabases] = useState(false);
+
+  // Look up the server's databases once the URL stops changing
+  useEffect(() => {
+    const url = baseUrl.trim();
+    if (!url) {
+      setDatabases([]);
+      setDatabase("");
+      setIsLoadingDatabases(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsLoadingDatabases(true);
+      const result = await lookupDatabases(url);
+      if (!cancelled) {
+        setDatabases(result.databases);
+        // Without a match the placeholder stays selected until the user picks one
+        setDatabase(result.suggested);
+        setDatabaseError(undefined);
+        setIsLoadingDatabases(false);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [baseUrl]);
 
   async function handleSubmit(values: LoginFormValues) {
     // Validate URL format
@@ -28,6 +82,12 @@ export default function LoginCommand() {
     }
 
     setUrlError(undefined);
+
+    if (databases.length > 0 && !databases.includes(values.database)) {
+      setDatabaseError("Choose the database to log into");
+      return;
+    }
+
     setIsLoading(true);
 
     try {
@@ -36,7 +96,16 @@ export default function LoginCommand() {
         title: "Logging in...",
       });
 
-      await login(values.baseUrl, values.username, values.password);
+      const options = {
+        profile: values.profile.trim(),
+        database: values.database.trim() || undefined,
+        rememberCredentials: values.rememberCredentials,
+      };
+      if (values.authMethod === "api_key") {
+        await loginWithApiKey(values.baseUrl, values.username, values.apiKey ?? "", options);
+      } else {
+        await login(values.baseUrl, values.username, values.password ?? "", options);
+      }
 
       await showToast({
         style: Toast.Style.Success,
@@ -47,6 +116,17 @@ export default function LoginCommand() {
       // Close the login form
       await popToRoot();
     } catch (error) {
+      if (error instanceof TwoFactorRequiredError) {
+        // Password accepted - continue with the second form step
+        setTotpChallenge(error.challenge);
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Two-Factor Authentication",
+          message: "Enter the code from your authenticator app",
+        });
+        return;
+      }
+
       await showToast({
         style: Toast.Style.Failure,
         title: "Login Failed",
@@ -57,9 +137,76 @@ export default function LoginCommand() {
     }
   }
 
+  async function handleTotpSubmit(values: TotpFormValues) {
+    if (!totpChallenge) return;
+
+    const code = values.code.replace(/\s/g, "");
+    if (!/^\d{6}$/.test(code)) {
+      setCodeError("Enter the 6-digit code");
+      return;
+    }
+
+    setCodeError(undefined);
+    setIsLoading(true);
+
+    try {
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Verifying code...",
+      });
+
+      await completeTotpLogin(totpChallenge, code);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Login Successful",
+        message: "You are now connected to Odoo",
+      });
+
+      // Close the login form
+      await popToRoot();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Verification Failed",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Second step - ask for the TOTP code
+  if (totpChallenge) {
+    return (
+      <Form
+        isLoading={isLoading}
+        actions={
+          <ActionPanel>
+            <Action.SubmitForm title="Verify" onSubmit={handleTotpSubmit} />
+            <Action title="Back" onAction={() => setTotpChallenge(null)} shortcut={{ modifiers: ["cmd"], key: "." }} />
+          </ActionPanel>
+        }
+      >
+        <Form.Description
+          title="Two-Factor Authentication"
+          text={`Enter the 6-digit code from your authenticator app for ${totpChallenge.username}`}
+        />
+        <Form.TextField
+          id="code"
+          title="Code"
+          placeholder="123456"
+          error={codeError}
+          onChange={() => setCodeError(undefined)}
+          autoFocus
+        />
+      </Form>
+    );
+  }
+
   return (
     <Form
-      isLoading={isLoading}
+      isLoading={isLoading || isLoadingDatabases}
       actions={
         <ActionPanel>
           <Action.SubmitForm title="Login" onSubmit={handleSubmit} />
@@ -72,20 +219,83 @@ export default function LoginCommand() {
         title="Odoo URL"
         placeholder="https://your-company.odoo.com"
         error={urlError}
-        onChange={() => setUrlError(undefined)}
+        value={baseUrl}
+        onChange={(value) => {
+          setBaseUrl(value);
+          setUrlError(undefined);
+        }}
         info="The URL of your Odoo instance (e.g., https://your-company.odoo.com)"
       />
+      {databases.length > 0 ? (
+        <Form.Dropdown
+          id="database"
+          title="Database"
+          value={database}
+          error={databaseError}
+          onChange={(value) => {
+            setDatabase(value);
+            setDatabaseError(undefined);
+          }}
+          info="The database to log into. The best match for the URL is preselected."
+        >
+          {!database && <Form.Dropdown.Item value="" title="Choose a database" />}
+          {databases.map((db) => (
+            <Form.Dropdown.Item key={db} value={db} title={db} />
+          ))}
+        </Form.Dropdown>
+      ) : (
+        <Form.TextField
+          id="database"
+          title="Database"
+          placeholder="Leave empty to detect automatically"
+          value={database}
+          onChange={setDatabase}
+          info="This server does not list its databases. Type the database name, or leave empty to let Odoo decide."
+        />
+      )}
       <Form.TextField
         id="username"
         title="Username"
         placeholder="user@example.com"
         info="Your Odoo username (usually your email address)"
       />
-      <Form.PasswordField
-        id="password"
-        title="Password"
-        placeholder="Enter your password"
-        info="Your Odoo account password"
+      <Form.Dropdown
+        id="authMethod"
+        title="Sign In With"
+        value={authMethod}
+        onChange={(value) => setAuthMethod(value as AuthMethod)}
+        info="Use an API key if your account has two-factor authentication enabled"
+      >
+        <Form.Dropdown.Item value="password" title="Password" />
+        <Form.Dropdown.Item value="api_key" title="API Key" />
+      </Form.Dropdown>
+      {authMethod === "api_key" ? (
+        <Form.PasswordField
+          id="apiKey"
+          title="API Key"
+          placeholder="Enter your API key"
+          info="Create one in Odoo under Preferences → Account Security → New API Key"
+        />
+      ) : (
+        <>
+          <Form.PasswordField
+            id="password"
+            title="Password"
+            placeholder="Enter your password"
+            info="Your Odoo account password"
+          />
+          <Form.Checkbox
+            id="rememberCredentials"
+            label="Log in again automatically when the session expires"
+            info="Saves your password in Raycast's encrypted storage. Not used with two-factor authentication."
+          />
+        </>
+      )}
+      <Form.TextField
+        id="profile"
+        title="Profile Name"
+        placeholder="Defaults to user@host"
+        info="Log in with another profile name to add a second Odoo account. Switch profiles from the menu bar."
       />
     </Form>
   );
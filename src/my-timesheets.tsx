@@ -0,0 +1,275 @@
+/**
+ * Command to review, edit and delete your recent timesheet entries
+ */
+
+import { List, ActionPanel, Action, Icon, Color, showToast, Toast, confirmAlert, Alert } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { TimesheetEntryForm } from "./components/TimesheetEntryForm";
+import { DateRangeDropdown } from "./components/DateRangeDropdown";
+import {
+  TimesheetEntry,
+  SessionExpiredError,
+  getTimesheetEntries,
+  deleteTimesheetEntry,
+  resumeTimesheetEntry,
+  getTaskShortcuts,
+  pinTask,
+  unpinTask,
+  formatHours,
+  formatDayTitle,
+  getDateRange,
+  DATE_RANGE_TITLES,
+} from "./utils/odoo";
+import type { DateRangeOption, TaskShortcut } from "./utils/odoo";
+import { ensureInitialized } from "./init";
+import { handleSessionExpired } from "./utils/session";
+import { checkInForTimer } from "./utils/coupling";
+
+const RANGE_OPTIONS: DateRangeOption[] = ["this_week", "last_week", "this_month", "last_30_days"];
+
+// Entries arrive sorted by date, newest first
+function groupByDay(entries: TimesheetEntry[]): { date: string; entries: TimesheetEntry[]; total: number }[] {
+  const days: { date: string; entries: TimesheetEntry[]; total: number }[] = [];
+  for (const entry of entries) {
+    const last = days[days.length - 1];
+    if (last && last.date === entry.date) {
+      last.entries.push(entry);
+      last.total += entry.hours;
+    } else {
+      days.push({ date: entry.date, entries: [entry], total: entry.hours });
+    }
+  }
+  return days;
+}
+
+export default function MyTimesheetsCommand() {
+  ensureInitialized();
+
+  const [range, setRange] = useState<DateRangeOption>("this_week");
+  const [entries, setEntries] = useState<TimesheetEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [favorites, setFavorites] = useState<TaskShortcut[]>([]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [range]);
+
+  useEffect(() => {
+    loadFavorites();
+  }, []);
+
+  async function loadFavorites() {
+    try {
+      setFavorites((await getTaskShortcuts()).favorites);
+    } catch (error) {
+      console.error("Failed to load favorites:", error);
+    }
+  }
+
+  function isPinned(entry: TimesheetEntry): boolean {
+    return favorites.some((f) => f.projectId === entry.projectId && f.taskId === entry.taskId);
+  }
+
+  async function handleTogglePin(entry: TimesheetEntry) {
+    if (!entry.projectId || !entry.taskId) return;
+
+    const pinned = isPinned(entry);
+    try {
+      if (pinned) {
+        await unpinTask(entry.projectId, entry.taskId);
+      } else {
+        await pinTask({
+          projectId: entry.projectId,
+          projectName: entry.projectName ?? "",
+          taskId: entry.taskId,
+          taskName: entry.taskName ?? "",
+          description: entry.description || null,
+        });
+      }
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: pinned ? "Removed from Favorites" : "Added to Favorites",
+      });
+      await loadFavorites();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to update favorites",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  async function loadEntries() {
+    setIsLoading(true);
+    try {
+      setEntries(await getTimesheetEntries(getDateRange(range)));
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        await handleSessionExpired();
+        return;
+      }
+
+      console.error("Failed to load timesheets:", error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to load timesheets",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleResume(entry: TimesheetEntry) {
+    try {
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Resuming entry...",
+      });
+
+      await resumeTimesheetEntry(entry);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Timer Resumed",
+        message: `${entry.projectName} — ${entry.taskName}`,
+      });
+      await checkInForTimer();
+
+      // A resumed entry from today is now the running line
+      await loadEntries();
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        await handleSessionExpired();
+        return;
+      }
+
+      console.error("Failed to resume entry:", error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to resume entry",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  async function handleDelete(entry: TimesheetEntry) {
+    const confirmed = await confirmAlert({
+      title: "Delete Entry?",
+      message: `${formatHours(entry.hours)} on ${entry.projectName || "Unknown"} will be removed from Odoo.`,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    try {
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Deleting entry...",
+      });
+
+      await deleteTimesheetEntry(entry.id);
+      setEntries((current) => current.filter((e) => e.id !== entry.id));
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Entry Deleted",
+      });
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        await handleSessionExpired();
+        return;
+      }
+
+      console.error("Failed to delete entry:", error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to delete entry",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  const days = groupByDay(entries);
+  const total = entries.reduce((sum, entry) => sum + entry.hours, 0);
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`My Timesheets — ${formatHours(total)}`}
+      searchBarPlaceholder="Filter by description, project or task"
+      searchBarAccessory={<DateRangeDropdown options={RANGE_OPTIONS} value={range} onChange={setRange} />}
+    >
+      <List.EmptyView
+        title="No Timesheet Entries"
+        description={`Nothing logged ${DATE_RANGE_TITLES[range].toLowerCase()}`}
+      />
+      {days.map((day) => (
+        <List.Section key={day.date} title={formatDayTitle(day.date)} subtitle={formatHours(day.total)}>
+          {day.entries.map((entry) => {
+            const accessories: List.Item.Accessory[] = [];
+            if (entry.isRunning) {
+              accessories.push({ tag: { value: "Running", color: Color.Green } });
+            }
+            if (entry.readOnly) {
+              accessories.push({
+                icon: Icon.Lock,
+                tooltip: entry.readOnlyReason === "invoiced" ? "Invoiced" : "Validated",
+              });
+            }
+            accessories.push({ text: formatHours(entry.hours) });
+
+            return (
+              <List.Item
+                key={entry.id}
+                title={entry.description || "No description"}
+                subtitle={`${entry.projectName || "Unknown"} — ${entry.taskName || "Unknown"}`}
+                keywords={[entry.projectName ?? "", entry.taskName ?? ""]}
+                accessories={accessories}
+                actions={
+                  <ActionPanel>
+                    {!entry.isRunning && entry.projectId && entry.taskId && (
+                      <Action title="Resume" icon={Icon.Play} onAction={() => handleResume(entry)} />
+                    )}
+                    {entry.projectId && entry.taskId && (
+                      <Action
+                        title={isPinned(entry) ? "Remove from Favorites" : "Add to Favorites"}
+                        icon={isPinned(entry) ? Icon.StarDisabled : Icon.Star}
+                        onAction={() => handleTogglePin(entry)}
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+                      />
+                    )}
+                    {/* The running line is stopped or cancelled instead */}
+                    {!entry.readOnly && !entry.isRunning && (
+                      <Action.Push
+                        title="Edit Entry"
+                        icon={Icon.Pencil}
+                        target={<TimesheetEntryForm entry={entry} onSaved={loadEntries} />}
+                      />
+                    )}
+                    {!entry.readOnly && !entry.isRunning && (
+                      <Action
+                        title="Delete Entry"
+                        icon={Icon.Trash}
+                        style={Action.Style.Destructive}
+                        onAction={() => handleDelete(entry)}
+                        shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                      />
+                    )}
+                    <Action
+                      title="Refresh"
+                      icon={Icon.ArrowClockwise}
+                      onAction={loadEntries}
+                      shortcut={{ modifiers: ["cmd"], key: "r" }}
+                    />
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
@@ -2,99 +2,297 @@
  * Menu bar implementation with live status and quick actions
  */
 
-import { MenuBarExtra, Icon, launchCommand, LaunchType } from "@raycast/api";
-import { useState, useEffect } from "react";
-import { getAttendanceStatus, getTimerState, logout, hasActiveSession, formatHours } from "./utils/odoo";
-import type { AttendanceState, TimerState } from "./utils/odoo";
+import { MenuBarExtra, Icon, launchCommand, LaunchType, environment, getPreferenceValues, showHUD } from "@raycast/api";
+import { useState, useEffect, useRef } from "react";
+import {
+  getAttendanceStatus,
+  getTimerState,
+  startTimerWithDetails,
+  stopTimer,
+  switchTimer,
+  cancelTimer,
+  updateTimer,
+  toggleCheckInOut,
+  getAttendanceTimerPolicy,
+  getTaskShortcuts,
+  getHourProgress,
+  getOvertimeBalance,
+  pauseTimer,
+  resumeTimer,
+  logout,
+  hasActiveSession,
+  validateSession,
+  getProfiles,
+  getActiveProfile,
+  setActiveProfile,
+  getServerTime,
+  getElapsedSeconds,
+  parseOdooDatetime,
+  formatHours,
+  formatDuration,
+  formatProgress,
+  formatSignedHours,
+  formatElapsedClock,
+  formatMenuBarTitle,
+  formatTime,
+  getPendingActions,
+  queuePendingAction,
+  discardPendingAction,
+  syncPendingActions,
+  getOfflineTimer,
+  isOfflineError,
+  SessionExpiredError,
+} from "./utils/odoo";
+import type {
+  AttendanceState,
+  TimerState,
+  TaskShortcut,
+  TaskShortcuts,
+  HourProgress,
+  OvertimeBalance,
+  PendingAction,
+  PendingActionInput,
+} from "./utils/odoo";
 import { ensureInitialized } from "./init";
+import { checkInForTimer, stopTimerForCheckOut } from "./utils/coupling";
+import { handleSessionExpired } from "./utils/session";
 
 interface MenuBarState {
   isLoggedIn: boolean;
+  profiles: string[];
+  activeProfile: string | null;
   attendance: AttendanceState | null;
   timer: TimerState | null;
+  shortcuts: TaskShortcuts;
+  progress: HourProgress | null;
+  overtime: OvertimeBalance | null;
+  pending: PendingAction[]; // Actions saved while Odoo was unreachable
   loading: boolean;
 }
 
+interface MenuBarPreferences {
+  showTaskInTitle: boolean;
+}
+
+const NO_SHORTCUTS: TaskShortcuts = { favorites: [], recent: [] };
+const MAX_RECENT_ITEMS = 5;
+
+const MAX_STOP_DESCRIPTIONS = 5;
+
+// Difference between the server clock and ours, so the elapsed time matches Odoo's
+async function getServerTimeOffset(): Promise<number> {
+  try {
+    return parseOdooDatetime(await getServerTime()).getTime() - Date.now();
+  } catch (error) {
+    console.error("[MenuBar] Failed to get server time:", error);
+    return 0;
+  }
+}
+
+function describePendingAction(action: PendingAction): string {
+  switch (action.type) {
+    case "start_timer":
+      return `Start ${action.taskName || "timer"}`;
+    case "stop_timer":
+      return action.description ? `Stop timer: ${action.description}` : "Stop timer";
+    case "log_time":
+      return `Log ${formatHours(action.hours)} on ${action.taskName || "a task"}`;
+    case "check_in":
+      return "Check in";
+    case "check_out":
+      return "Check out";
+  }
+}
+
+/**
+ * Descriptions offered when stopping a timer from the menu bar, where nothing can be typed:
+ * the ones last used with recent and favorite tasks, those of the timer's own task first
+ */
+function getStopDescriptions(shortcuts: TaskShortcuts, taskId: number | null, current: string | null): string[] {
+  const all = [...shortcuts.recent, ...shortcuts.favorites];
+  const ordered = [...all.filter((s) => s.taskId === taskId), ...all.filter((s) => s.taskId !== taskId)];
+  const descriptions = ordered
+    .map((shortcut) => shortcut.description?.trim() ?? "")
+    .filter((description) => description && description !== "/" && description !== current);
+  return [...new Set(descriptions)].slice(0, MAX_STOP_DESCRIPTIONS);
+}
+
+function getTimerElapsedSeconds(timer: TimerState, serverTimeOffset: number, now: number): number {
+  if (!timer.startTime) return 0;
+
+  // Paused - the elapsed time stays frozen at the moment of the pause
+  if (timer.paused && timer.timerPause) {
+    return getElapsedSeconds(timer.startTime, timer.timerPause);
+  }
+  return Math.floor((now + serverTimeOffset - parseOdooDatetime(timer.startTime).getTime()) / 1000);
+}
+
 export default function MenuBarCommand() {
   ensureInitialized();
 
   console.log("[MenuBar] Component rendering...");
 
+  const { showTaskInTitle } = getPreferenceValues<MenuBarPreferences>();
+  // Raycast refreshes the title on the command's interval; only the title and icon are visible then
+  const isBackground = environment.launchType === LaunchType.Background;
+
   const [state, setState] = useState<MenuBarState>({
     isLoggedIn: false,
+    profiles: [],
+    activeProfile: null,
     attendance: null,
     timer: null,
+    shortcuts: NO_SHORTCUTS,
+    progress: null,
+    overtime: null,
+    pending: [],
     loading: true,
   });
+  const [now, setNow] = useState(() => Date.now());
+
+  // The interval below is created once, so it reads these through refs instead of a stale state
+  const isLoggedInRef = useRef(false);
+  const serverTimeOffsetRef = useRef(0);
+
+  useEffect(() => {
+    isLoggedInRef.current = state.isLoggedIn;
+  }, [state.isLoggedIn]);
 
   // Load initial state and set up periodic refresh
   useEffect(() => {
     loadState();
 
-    // Check timer state every 5 seconds (only reads from cache, no API calls)
-    const timerInterval = setInterval(() => {
-      refreshTimer();
-    }, 5 * 1000);
+    // Tick the elapsed time every second and pick up timer changes every 5 seconds
+    // (the timer is cached for 30 seconds, so most refreshes make no API call)
+    let ticks = 0;
+    const clockInterval = setInterval(() => {
+      setNow(Date.now());
+      if (++ticks % 5 === 0) {
+        refreshTimer();
+      }
+    }, 1000);
 
     return () => {
-      clearInterval(timerInterval);
+      clearInterval(clockInterval);
     };
   }, []);
 
   async function loadState() {
     console.log("[MenuBar] Loading state...");
     try {
-      const loggedIn = await hasActiveSession();
-      console.log("[MenuBar] Logged in:", loggedIn);
+      // Health check: renews an expired session if possible; network errors keep the cached login
+      // Background refreshes skip it, the API renews the session when it needs to
+      const loggedIn =
+        (await hasActiveSession()) &&
+        (isBackground ||
+          (await validateSession().catch((err) => {
+            console.error("[MenuBar] Could not validate session:", err.message);
+            return true;
+          })));
+      const [profiles, activeProfile] = await Promise.all([getProfiles(), getActiveProfile()]);
+      console.log("[MenuBar] Logged in:", loggedIn, "profile:", activeProfile, "background:", isBackground);
 
       if (!loggedIn) {
         console.log("[MenuBar] Not logged in, setting state");
         setState({
           isLoggedIn: false,
+          profiles,
+          activeProfile,
           attendance: null,
           timer: null,
+          shortcuts: NO_SHORTCUTS,
+          progress: null,
+          overtime: null,
+          pending: [],
           loading: false,
         });
         return;
       }
 
-      console.log("[MenuBar] Fetching attendance and timer...");
+      // Replay what was saved offline first, so the state below includes it
+      const pending = await syncOfflineActions();
 
-      // Add timeout wrapper
-      const timeout = (ms: number) => new Promise((_, reject) => setTimeout(() => reject(new Error("Timeout")), ms));
+      console.log("[MenuBar] Fetching attendance and timer...");
 
-      const [attendance, timer] = await Promise.all([
-        Promise.race([getAttendanceStatus(true), timeout(5000)]).catch((err) => {
+      // Request timeouts and retries are handled by the client
+      const [attendance, timer, shortcuts, progress, overtime] = await Promise.all([
+        getAttendanceStatus(true).catch((err) => {
           console.error("[MenuBar] Failed to get attendance:", err.message);
           return null;
-        }) as Promise<AttendanceState | null>,
-        Promise.race([getTimerState(true), timeout(5000)]).catch((err) => {
+        }),
+        getTimerState(true).catch((err) => {
           console.error("[MenuBar] Failed to get timer:", err.message);
           return null;
-        }) as Promise<TimerState | null>,
+        }),
+        // Only shown in the open menu, which Raycast launches separately
+        isBackground
+          ? NO_SHORTCUTS
+          : getTaskShortcuts().catch((err) => {
+              console.error("[MenuBar] Failed to get favorites:", err.message);
+              return NO_SHORTCUTS;
+            }),
+        // The title shows today's progress, so background refreshes reuse a recent result
+        getHourProgress(isBackground).catch((err) => {
+          console.error("[MenuBar] Failed to get hour targets:", err.message);
+          return null;
+        }),
+        isBackground
+          ? null
+          : getOvertimeBalance().catch((err) => {
+              console.error("[MenuBar] Failed to get overtime:", err.message);
+              return null;
+            }),
       ]);
 
+      if (timer?.timerId && !timer.paused) {
+        serverTimeOffsetRef.current = await getServerTimeOffset();
+      }
+
       console.log("[MenuBar] Loaded - attendance:", attendance?.attendance_state, "timer:", timer?.timerId);
 
       setState({
         isLoggedIn: true,
+        profiles,
+        activeProfile,
         attendance,
         timer,
+        shortcuts,
+        progress,
+        overtime,
+        pending,
         loading: false,
       });
     } catch (error) {
       console.error("[MenuBar] Failed to load menu bar state:", error);
       setState({
         isLoggedIn: false,
+        profiles: [],
+        activeProfile: null,
         attendance: null,
         timer: null,
+        shortcuts: NO_SHORTCUTS,
+        progress: null,
+        overtime: null,
+        pending: [],
         loading: false,
       });
     }
   }
 
+  async function syncOfflineActions(): Promise<PendingAction[]> {
+    try {
+      if ((await getPendingActions()).length > 0) {
+        const result = await syncPendingActions();
+        console.log("[MenuBar] Synced", result.synced, "offline actions,", result.remaining, "waiting");
+      }
+    } catch (error) {
+      console.error("[MenuBar] Failed to sync offline actions:", error);
+    }
+    return getPendingActions();
+  }
+
   async function refreshTimer() {
-    if (!state.isLoggedIn) return;
+    if (!isLoggedInRef.current) return;
 
     try {
       // Use cache=true to instantly see changes from timesheet command
@@ -105,14 +303,166 @@ export default function MenuBarCommand() {
     }
   }
 
+  // Run a menu action, confirm it with a HUD and reload the menu
+  // The menu closes on click, so failures are reported with a HUD as well.
+  // When Odoo is unreachable, the offline version of the action is saved to sync later.
+  async function runAction(failureTitle: string, action: () => Promise<string>, offline?: PendingActionInput) {
+    try {
+      await showHUD(await action());
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        await handleSessionExpired();
+        return;
+      }
+
+      if (offline && isOfflineError(error)) {
+        await queuePendingAction(offline);
+        await showHUD("Saved Offline - will sync once Odoo is reachable");
+        await loadState();
+        return;
+      }
+
+      console.error(`[MenuBar] ${failureTitle}:`, error);
+      await showHUD(`${failureTitle}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    await loadState();
+  }
+
+  async function handleQuickStart(shortcut: TaskShortcut) {
+    await runAction(
+      "Failed to start timer",
+      async () => {
+        await startTimerWithDetails(shortcut.projectId, shortcut.taskId, shortcut.description ?? undefined);
+        await checkInForTimer(false);
+        serverTimeOffsetRef.current = await getServerTimeOffset();
+        return `Started ${shortcut.taskName}`;
+      },
+      {
+        type: "start_timer",
+        projectId: shortcut.projectId,
+        projectName: shortcut.projectName,
+        taskId: shortcut.taskId,
+        taskName: shortcut.taskName,
+        description: shortcut.description,
+      },
+    );
+  }
+
+  async function handleTogglePause(timer: TimerState) {
+    const timerId = timer.timerId;
+    if (!timerId) return;
+
+    await runAction(timer.paused ? "Failed to resume timer" : "Failed to pause timer", async () => {
+      if (timer.paused) {
+        await resumeTimer(timerId);
+        serverTimeOffsetRef.current = await getServerTimeOffset();
+        return "Timer Resumed";
+      }
+      await pauseTimer(timerId);
+      return "Timer Paused";
+    });
+  }
+
+  async function handleStop(timer: TimerState, description: string) {
+    const timerId = timer.timerId;
+    if (!timerId) return;
+
+    await runAction(
+      "Failed to stop timer",
+      async () => {
+        if (description !== timer.description) {
+          await updateTimer(timerId, undefined, undefined, description);
+        }
+        const result = await stopTimer(timerId);
+        return `Logged ${formatDuration(result.duration)} to ${timer.taskName || "the timesheet"}`;
+      },
+      { type: "stop_timer", timerId, description },
+    );
+  }
+
+  // A timer started offline only exists in the queue, so stopping it is queued too
+  async function handleStopOfflineTimer(description: string | null) {
+    await queuePendingAction({ type: "stop_timer", timerId: null, description });
+    await showHUD("Timer Stopped - will sync once Odoo is reachable");
+    await loadState();
+  }
+
+  async function handleSwitch(timer: TimerState, shortcut: TaskShortcut) {
+    const { timerId, description } = timer;
+    if (!timerId || !description) return;
+
+    await runAction("Failed to switch task", async () => {
+      const result = await switchTimer(timerId, shortcut.projectId, shortcut.taskId, description);
+      serverTimeOffsetRef.current = await getServerTimeOffset();
+      return `Logged ${formatDuration(result.duration)}, now on ${shortcut.taskName}`;
+    });
+  }
+
+  async function handleCancel(timer: TimerState) {
+    const timerId = timer.timerId;
+    if (!timerId) return;
+
+    await runAction("Failed to cancel timer", async () => {
+      await cancelTimer(timerId);
+      return "Timer Canceled";
+    });
+  }
+
+  async function handleToggleAttendance() {
+    const checkingIn = state.attendance?.attendance_state !== "checked_in";
+
+    await runAction(
+      "Failed to change attendance",
+      async () => {
+        const current = await getAttendanceStatus(false);
+
+        // The menu bar can't ask, so only "always" stops the timer, and only with a description to save
+        const timer = state.timer;
+        if (current.attendance_state === "checked_in" && timer?.timerId && timer.description) {
+          const { stopTimerOnCheckOut } = await getAttendanceTimerPolicy();
+          if (stopTimerOnCheckOut === "always" && !(await stopTimerForCheckOut(timer.timerId, timer.description))) {
+            return "Still Checked In";
+          }
+        }
+
+        const updated = await toggleCheckInOut();
+        return updated.attendance_state === "checked_in"
+          ? "Checked In"
+          : `Checked Out (${formatHours(updated.hours_today)} today)`;
+      },
+      { type: checkingIn ? "check_in" : "check_out" },
+    );
+  }
+
+  async function handleSyncNow() {
+    await runAction("Failed to sync", async () => {
+      const result = await syncPendingActions();
+      if (result.offline) {
+        return "Odoo Is Still Unreachable";
+      }
+      if (result.conflict) {
+        return `Synced ${result.synced}, stopped at a conflict: ${result.conflict.conflict}`;
+      }
+      return `Synced ${result.synced} Offline ${result.synced === 1 ? "Action" : "Actions"}`;
+    });
+  }
+
+  async function handleDiscard(action: PendingAction) {
+    await discardPendingAction(action.id);
+    await showHUD(`Discarded ${describePendingAction(action)}`);
+    await loadState();
+  }
+
   async function handleLogout() {
     await logout();
-    setState({
-      isLoggedIn: false,
-      attendance: null,
-      timer: null,
-      loading: false,
-    });
+    // Another saved profile may have become active
+    await loadState();
+  }
+
+  async function handleSwitchProfile(profile: string) {
+    setState((prev) => ({ ...prev, loading: true }));
+    await setActiveProfile(profile);
+    await loadState();
   }
 
   // Determine menu bar icon
@@ -127,6 +477,9 @@ export default function MenuBarCommand() {
 
     // Priority: Timer state > Attendance state
     if (state.timer?.timerId) {
+      return state.timer.paused ? Icon.Pause : Icon.Clock;
+    }
+    if (offlineTimer) {
       return Icon.Clock;
     }
 
@@ -142,10 +495,75 @@ export default function MenuBarCommand() {
     return Icon.CircleFilled;
   }
 
+  // Elapsed time of the running timer, otherwise the share of today's target logged so far
+  const offlineTimer = getOfflineTimer(state.pending);
+
+  function getMenuBarTitle(): string | undefined {
+    if (!state.isLoggedIn) {
+      return undefined;
+    }
+
+    if (state.timer?.timerId) {
+      const clock = formatElapsedClock(getTimerElapsedSeconds(state.timer, serverTimeOffsetRef.current, now));
+      if (!showTaskInTitle || !state.timer.projectName) {
+        return clock;
+      }
+      return `${clock} ${formatMenuBarTitle(state.timer.projectName, state.timer.taskName || "No task")}`;
+    }
+
+    if (offlineTimer) {
+      return formatElapsedClock((now - new Date(offlineTimer.at).getTime()) / 1000);
+    }
+
+    if (!state.progress || state.progress.targets.daily <= 0) {
+      return undefined;
+    }
+    return `${Math.round((state.progress.loggedToday / state.progress.targets.daily) * 100)}%`;
+  }
+
+  // Favorite and recent tasks, leaving out the one the timer is already on
+  function renderShortcutSections(onSelect: (shortcut: TaskShortcut) => void) {
+    const isCurrent = (shortcut: TaskShortcut) =>
+      shortcut.projectId === state.timer?.projectId && shortcut.taskId === state.timer?.taskId;
+    const favorites = state.shortcuts.favorites.filter((shortcut) => !isCurrent(shortcut));
+    const recent = state.shortcuts.recent.filter((shortcut) => !isCurrent(shortcut)).slice(0, MAX_RECENT_ITEMS);
+
+    return (
+      <>
+        {favorites.length > 0 && (
+          <MenuBarExtra.Section title="Favorites">
+            {favorites.map((shortcut) => (
+              <MenuBarExtra.Item
+                key={`favorite-${shortcut.projectId}-${shortcut.taskId}`}
+                title={shortcut.taskName}
+                subtitle={shortcut.projectName}
+                onAction={() => onSelect(shortcut)}
+                icon={Icon.Star}
+              />
+            ))}
+          </MenuBarExtra.Section>
+        )}
+        {recent.length > 0 && (
+          <MenuBarExtra.Section title="Recent">
+            {recent.map((shortcut) => (
+              <MenuBarExtra.Item
+                key={`recent-${shortcut.projectId}-${shortcut.taskId}`}
+                title={shortcut.taskName}
+                subtitle={shortcut.projectName}
+                onAction={() => onSelect(shortcut)}
+                icon={Icon.Clock}
+              />
+            ))}
+          </MenuBarExtra.Section>
+        )}
+      </>
+    );
+  }
+
   const icon = getMenuBarIcon();
 
   return (
-    <MenuBarExtra icon={icon} isLoading={state.loading}>
+    <MenuBarExtra icon={icon} title={getMenuBarTitle()} isLoading={state.loading}>
       {!state.isLoggedIn ? (
         <>
           <MenuBarExtra.Item
@@ -168,6 +586,20 @@ export default function MenuBarCommand() {
                 icon={state.attendance.attendance_state === "checked_in" ? Icon.CheckCircle : Icon.XMarkCircle}
               />
             )}
+            {state.attendance && (
+              <MenuBarExtra.Item
+                title={state.attendance.attendance_state === "checked_in" ? "Check Out" : "Check In"}
+                onAction={handleToggleAttendance}
+                icon={state.attendance.attendance_state === "checked_in" ? Icon.Logout : Icon.ArrowRightCircle}
+              />
+            )}
+            {state.overtime && (
+              <MenuBarExtra.Item
+                title={`Overtime: ${formatSignedHours(state.overtime.balance)}`}
+                subtitle={`Today ${formatSignedHours(state.overtime.today)}`}
+                icon={Icon.Hourglass}
+              />
+            )}
             <MenuBarExtra.Item
               title="Open Attendance"
               onAction={() => launchCommand({ name: "attendance", type: LaunchType.UserInitiated })}
@@ -175,6 +607,29 @@ export default function MenuBarCommand() {
             />
           </MenuBarExtra.Section>
 
+          {/* Progress Section */}
+          {state.progress && (
+            <MenuBarExtra.Section title="Targets">
+              {state.progress.attendedToday !== null && (
+                <MenuBarExtra.Item
+                  title={`Attended Today: ${formatProgress(state.progress.attendedToday, state.progress.targets.daily)}`}
+                  onAction={() => launchCommand({ name: "attendance", type: LaunchType.UserInitiated })}
+                  icon={Icon.Person}
+                />
+              )}
+              <MenuBarExtra.Item
+                title={`Logged Today: ${formatProgress(state.progress.loggedToday, state.progress.targets.daily)}`}
+                onAction={() => launchCommand({ name: "timesheet-grid", type: LaunchType.UserInitiated })}
+                icon={Icon.Goal}
+              />
+              <MenuBarExtra.Item
+                title={`This Week: ${formatProgress(state.progress.loggedWeek, state.progress.targets.weekly)}`}
+                onAction={() => launchCommand({ name: "timesheet-grid", type: LaunchType.UserInitiated })}
+                icon={Icon.Calendar}
+              />
+            </MenuBarExtra.Section>
+          )}
+
           {/* Timesheet Section */}
           <MenuBarExtra.Section title="Timesheet">
             {state.timer?.timerId ? (
@@ -187,23 +642,156 @@ export default function MenuBarCommand() {
                   />
                 )}
                 {state.timer.description && <MenuBarExtra.Item title={state.timer.description} icon={Icon.Pencil} />}
+                <MenuBarExtra.Item
+                  title={state.timer.paused ? "Resume Timer" : "Pause Timer"}
+                  onAction={() => state.timer && handleTogglePause(state.timer)}
+                  icon={state.timer.paused ? Icon.Play : Icon.Pause}
+                />
+                <MenuBarExtra.Submenu title="Stop Timer" icon={Icon.Stop}>
+                  {state.timer.description && state.timer.description !== "/" && (
+                    <MenuBarExtra.Section title="Current Description">
+                      <MenuBarExtra.Item
+                        title={state.timer.description}
+                        onAction={() => state.timer?.description && handleStop(state.timer, state.timer.description)}
+                      />
+                    </MenuBarExtra.Section>
+                  )}
+                  <MenuBarExtra.Section title="Recent Descriptions">
+                    {getStopDescriptions(state.shortcuts, state.timer.taskId, state.timer.description).map(
+                      (description) => (
+                        <MenuBarExtra.Item
+                          key={description}
+                          title={description}
+                          onAction={() => state.timer && handleStop(state.timer, description)}
+                        />
+                      ),
+                    )}
+                  </MenuBarExtra.Section>
+                  <MenuBarExtra.Section>
+                    <MenuBarExtra.Item
+                      title="Describe and Stop…"
+                      onAction={() => launchCommand({ name: "timesheet", type: LaunchType.UserInitiated })}
+                      icon={Icon.Pencil}
+                    />
+                  </MenuBarExtra.Section>
+                </MenuBarExtra.Submenu>
+                {/* Switching saves the current description, so without one the form has to ask for it */}
+                {state.timer.description && state.timer.description !== "/" ? (
+                  <MenuBarExtra.Submenu title="Switch To" icon={Icon.Switch}>
+                    {renderShortcutSections((shortcut) => state.timer && handleSwitch(state.timer, shortcut))}
+                  </MenuBarExtra.Submenu>
+                ) : (
+                  <MenuBarExtra.Item
+                    title="Switch Task…"
+                    onAction={() =>
+                      launchCommand({
+                        name: "timesheet",
+                        type: LaunchType.UserInitiated,
+                        context: { switchTask: true },
+                      })
+                    }
+                    icon={Icon.Switch}
+                  />
+                )}
+                <MenuBarExtra.Item
+                  title="Cancel Timer"
+                  subtitle="Discards the tracked time"
+                  onAction={() => state.timer && handleCancel(state.timer)}
+                  icon={Icon.Trash}
+                />
                 <MenuBarExtra.Item
                   title="Open Timesheet"
                   onAction={() => launchCommand({ name: "timesheet", type: LaunchType.UserInitiated })}
                   icon={Icon.Eye}
                 />
               </>
+            ) : offlineTimer ? (
+              <>
+                <MenuBarExtra.Item
+                  title={offlineTimer.taskName || "Timer"}
+                  subtitle={`Started offline at ${formatTime(offlineTimer.at)}`}
+                  icon={Icon.Folder}
+                />
+                <MenuBarExtra.Submenu title="Stop Timer" icon={Icon.Stop}>
+                  {offlineTimer.description && (
+                    <MenuBarExtra.Section title="Current Description">
+                      <MenuBarExtra.Item
+                        title={offlineTimer.description}
+                        onAction={() => offlineTimer.description && handleStopOfflineTimer(offlineTimer.description)}
+                      />
+                    </MenuBarExtra.Section>
+                  )}
+                  <MenuBarExtra.Section title="Recent Descriptions">
+                    {getStopDescriptions(state.shortcuts, offlineTimer.taskId, offlineTimer.description).map(
+                      (description) => (
+                        <MenuBarExtra.Item
+                          key={description}
+                          title={description}
+                          onAction={() => handleStopOfflineTimer(description)}
+                        />
+                      ),
+                    )}
+                  </MenuBarExtra.Section>
+                  {/* The timesheet form can't be reached offline, so the line gets its description in Odoo later */}
+                  <MenuBarExtra.Section>
+                    <MenuBarExtra.Item
+                      title="Stop Without Description"
+                      onAction={() => handleStopOfflineTimer(null)}
+                      icon={Icon.Stop}
+                    />
+                  </MenuBarExtra.Section>
+                </MenuBarExtra.Submenu>
+              </>
             ) : (
-              <MenuBarExtra.Item
-                title="Start Tracking"
-                onAction={() => launchCommand({ name: "timesheet", type: LaunchType.UserInitiated })}
-                icon={Icon.Play}
-              />
+              <>
+                {(state.shortcuts.favorites.length > 0 || state.shortcuts.recent.length > 0) && (
+                  <MenuBarExtra.Submenu title="Start Timer" icon={Icon.Play}>
+                    {renderShortcutSections(handleQuickStart)}
+                  </MenuBarExtra.Submenu>
+                )}
+                <MenuBarExtra.Item
+                  title="Start Tracking…"
+                  onAction={() => launchCommand({ name: "timesheet", type: LaunchType.UserInitiated })}
+                  icon={Icon.Plus}
+                />
+              </>
             )}
           </MenuBarExtra.Section>
 
+          {/* Pending Sync Section */}
+          {state.pending.length > 0 && (
+            <MenuBarExtra.Section title="Pending Sync">
+              {state.pending.map((action) => (
+                <MenuBarExtra.Submenu
+                  key={action.id}
+                  title={`${formatTime(action.at)} ${describePendingAction(action)}`}
+                  icon={action.conflict ? Icon.Warning : Icon.Clock}
+                >
+                  {action.conflict && <MenuBarExtra.Item title={action.conflict} icon={Icon.Warning} />}
+                  <MenuBarExtra.Item title="Discard" onAction={() => handleDiscard(action)} icon={Icon.Trash} />
+                </MenuBarExtra.Submenu>
+              ))}
+              <MenuBarExtra.Item title="Sync Now" onAction={handleSyncNow} icon={Icon.ArrowClockwise} />
+            </MenuBarExtra.Section>
+          )}
+
           {/* Settings Section */}
           <MenuBarExtra.Section>
+            <MenuBarExtra.Submenu title={`Profile: ${state.activeProfile ?? "None"}`} icon={Icon.PersonCircle}>
+              {state.profiles.map((profile) => (
+                <MenuBarExtra.Item
+                  key={profile}
+                  title={profile}
+                  icon={profile === state.activeProfile ? Icon.CheckCircle : Icon.Circle}
+                  onAction={() => handleSwitchProfile(profile)}
+                />
+              ))}
+              <MenuBarExtra.Item
+                title="Add Profile…"
+                onAction={() => launchCommand({ name: "login", type: LaunchType.UserInitiated })}
+                icon={Icon.Plus}
+              />
+            </MenuBarExtra.Submenu>
             <MenuBarExtra.Item title="Refresh" onAction={loadState} icon={Icon.ArrowClockwise} />
             <MenuBarExtra.Item title="Logout" onAction={handleLogout} icon={Icon.Logout} />
           </MenuBarExtra.Section>
@@ -0,0 +1,195 @@
+/**
+ * Command to fill in a week of timesheets as project/task rows against days
+ */
+
+import { List, ActionPanel, Action, Icon, showToast, Toast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { GridCellForm, AddGridRowForm } from "./components/GridCellForm";
+import {
+  TimesheetGrid,
+  TimesheetGridRow,
+  SessionExpiredError,
+  getTimesheetGrid,
+  formatHours,
+  addDays,
+  startOfWeek,
+  parseOdooDate,
+  userToday,
+} from "./utils/odoo";
+import { ensureInitialized } from "./init";
+import { handleSessionExpired } from "./utils/session";
+
+function formatShortDay(day: string): string {
+  return parseOdooDate(day).toLocaleDateString([], { weekday: "short", day: "numeric" });
+}
+
+function formatWeekTitle(weekStart: Date): string {
+  const options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric" };
+  return `${weekStart.toLocaleDateString([], options)} – ${addDays(weekStart, 6).toLocaleDateString([], options)}`;
+}
+
+// Default to today's column when viewing the current week
+function getDefaultDay(days: string[]): string {
+  const today = userToday();
+  const match = days.find((day) => parseOdooDate(day).toDateString() === today.toDateString());
+  return match ?? days[0];
+}
+
+export default function TimesheetGridCommand() {
+  ensureInitialized();
+
+  const [weekStart, setWeekStart] = useState<Date>(() => startOfWeek());
+  const [grid, setGrid] = useState<TimesheetGrid | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadGrid();
+  }, [weekStart]);
+
+  async function loadGrid() {
+    setIsLoading(true);
+    try {
+      setGrid(await getTimesheetGrid(weekStart));
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        await handleSessionExpired();
+        return;
+      }
+
+      console.error("Failed to load timesheet grid:", error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to load timesheets",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function renderDayMetadata(days: string[], hours: number[]) {
+    return (
+      <List.Item.Detail.Metadata>
+        {days.map((day, index) => (
+          <List.Item.Detail.Metadata.Label
+            key={day}
+            title={formatShortDay(day)}
+            text={hours[index] > 0 ? formatHours(hours[index]) : "—"}
+          />
+        ))}
+      </List.Item.Detail.Metadata>
+    );
+  }
+
+  function renderWeekActions() {
+    const days = grid?.days ?? [];
+    return (
+      <>
+        {days.length > 0 && (
+          <Action.Push
+            title="Add Row"
+            icon={Icon.Plus}
+            target={<AddGridRowForm days={days} initialDay={getDefaultDay(days)} onSaved={loadGrid} />}
+            shortcut={{ modifiers: ["cmd"], key: "n" }}
+          />
+        )}
+        <Action
+          title="Previous Week"
+          icon={Icon.ArrowLeft}
+          onAction={() => setWeekStart(addDays(weekStart, -7))}
+          shortcut={{ modifiers: ["cmd"], key: "[" }}
+        />
+        <Action
+          title="Next Week"
+          icon={Icon.ArrowRight}
+          onAction={() => setWeekStart(addDays(weekStart, 7))}
+          shortcut={{ modifiers: ["cmd"], key: "]" }}
+        />
+        <Action
+          title="This Week"
+          icon={Icon.Calendar}
+          onAction={() => setWeekStart(startOfWeek())}
+          shortcut={{ modifiers: ["cmd"], key: "t" }}
+        />
+        <Action
+          title="Refresh"
+          icon={Icon.ArrowClockwise}
+          onAction={loadGrid}
+          shortcut={{ modifiers: ["cmd"], key: "r" }}
+        />
+      </>
+    );
+  }
+
+  function renderRow(grid: TimesheetGrid, row: TimesheetGridRow) {
+    const cellForm = (day: string) => (
+      <GridCellForm
+        projectId={row.projectId}
+        projectName={row.projectName}
+        taskId={row.taskId}
+        taskName={row.taskName}
+        days={grid.days}
+        hours={row.hours}
+        initialDay={day}
+        onSaved={loadGrid}
+      />
+    );
+
+    return (
+      <List.Item
+        key={`${row.projectId}:${row.taskId ?? "none"}`}
+        title={row.taskName || "No task"}
+        subtitle={row.projectName}
+        keywords={[row.projectName]}
+        accessories={[{ text: formatHours(row.total) }]}
+        detail={<List.Item.Detail metadata={renderDayMetadata(grid.days, row.hours)} />}
+        actions={
+          <ActionPanel>
+            <Action.Push title="Set Hours" icon={Icon.Pencil} target={cellForm(getDefaultDay(grid.days))} />
+            <ActionPanel.Submenu
+              title="Set Hours for Day"
+              icon={Icon.Calendar}
+              shortcut={{ modifiers: ["cmd"], key: "d" }}
+            >
+              {grid.days.map((day, index) => (
+                <Action.Push
+                  key={day}
+                  title={`${formatShortDay(day)} (${formatHours(row.hours[index])})`}
+                  target={cellForm(day)}
+                />
+              ))}
+            </ActionPanel.Submenu>
+            {renderWeekActions()}
+          </ActionPanel>
+        }
+      />
+    );
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      isShowingDetail={!!grid && grid.rows.length > 0}
+      navigationTitle={`Weekly Timesheet — ${formatHours(grid?.total ?? 0)}`}
+      searchBarPlaceholder="Filter by project or task"
+    >
+      <List.EmptyView
+        title="Nothing Logged"
+        description={formatWeekTitle(weekStart)}
+        actions={<ActionPanel>{renderWeekActions()}</ActionPanel>}
+      />
+      {grid && grid.rows.length > 0 && (
+        <List.Section title={`Week of ${formatWeekTitle(weekStart)}`} subtitle={formatHours(grid.total)}>
+          <List.Item
+            title="Daily Totals"
+            icon={Icon.BarChart}
+            accessories={[{ text: formatHours(grid.total) }]}
+            detail={<List.Item.Detail metadata={renderDayMetadata(grid.days, grid.dailyTotals)} />}
+            actions={<ActionPanel>{renderWeekActions()}</ActionPanel>}
+          />
+          {grid.rows.map((row) => renderRow(grid, row))}
+        </List.Section>
+      )}
+    </List>
+  );
+}
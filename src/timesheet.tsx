@@ -2,25 +2,70 @@
  * Unified timesheet command - checks for running timer and shows appropriate UI
  */
 
-import { Detail, Form, ActionPanel, Action, showToast, Toast, launchCommand, LaunchType } from "@raycast/api";
+import {
+  Detail,
+  Form,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  launchCommand,
+  LaunchType,
+  LaunchProps,
+} from "@raycast/api";
 import { useEffect, useState, useRef } from "react";
 import { TaskSelector } from "./components/TaskSelector";
 import { useTimesheet } from "./hooks/useTimesheet";
 import {
   startTimerWithDetails,
+  switchTimer,
+  resumeTimesheetEntry,
+  findTaskShortcut,
+  getTimesheetRoundingRules,
+  roundTimesheetMinutes,
+  formatHours,
   updateTimer,
   getServerTime,
   cancelTimer,
   hasActiveSession,
   formatDuration,
   getElapsedSeconds,
+  parseOdooDatetime,
+  isOfflineError,
+  TimesheetEntry,
+  TimesheetRoundingRules,
 } from "./utils/odoo";
+import { checkInForTimer } from "./utils/coupling";
+import { saveForLater } from "./utils/offline";
+
+/**
+ * Preview what Odoo will save for the elapsed time, and why it differs
+ */
+function describeLoggedTime(elapsedSeconds: number, rules: TimesheetRoundingRules): string {
+  const minutes = elapsedSeconds / 60;
+  const logged = formatHours(roundTimesheetMinutes(minutes, rules) / 60);
+
+  if (rules.minDuration && minutes < rules.minDuration) {
+    return `Will be logged as ${logged} - the company minimum is ${rules.minDuration} min`;
+  }
+  if (rules.rounding > 0 && minutes % rules.rounding > 0) {
+    return `Will be logged as ${logged} - rounded up to ${rules.rounding} min steps`;
+  }
+  return `Will be logged as ${logged}`;
+}
+
+interface TimesheetLaunchContext {
+  switchTask?: boolean; // Open the switch task form (from the menu bar)
+}
 
-export default function TimesheetCommand() {
-  const { state, loading, error, refresh, stop } = useTimesheet(true);
+export default function TimesheetCommand(props: LaunchProps<{ launchContext?: TimesheetLaunchContext }>) {
+  const { state, loading, error, refresh, stop, pause, resume } = useTimesheet(true);
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [stopRequested, setStopRequested] = useState(false);
+  const [switchRequested, setSwitchRequested] = useState(props.launchContext?.switchTask ?? false);
+  const [roundingRules, setRoundingRules] = useState<TimesheetRoundingRules | null>(null);
   const serverTimeOffsetRef = useRef<number>(0);
 
   // Check authentication on mount
@@ -30,12 +75,18 @@ export default function TimesheetCommand() {
 
   // Update elapsed time every second when timer is running
   useEffect(() => {
+    // Paused - the elapsed time stays frozen at the moment of the pause
+    if (state?.startTime && state.paused && state.timerPause) {
+      setElapsedSeconds(getElapsedSeconds(state.startTime, state.timerPause));
+      return;
+    }
+
     if (state?.startTime) {
       const syncWithServer = async () => {
         try {
           // Fetch server time to calculate offset
           const serverTime = await getServerTime();
-          const serverDate = new Date(serverTime.replace(" ", "T"));
+          const serverDate = parseOdooDatetime(serverTime);
           const localDate = new Date();
           serverTimeOffsetRef.current = serverDate.getTime() - localDate.getTime();
 
@@ -49,7 +100,7 @@ export default function TimesheetCommand() {
       const updateElapsed = () => {
         if (state.startTime) {
           // Calculate elapsed using local time + server offset
-          const startDate = new Date(state.startTime.replace(" ", "T"));
+          const startDate = parseOdooDatetime(state.startTime);
           const now = new Date(Date.now() + serverTimeOffsetRef.current);
           const elapsed = Math.floor((now.getTime() - startDate.getTime()) / 1000);
           setElapsedSeconds(elapsed);
@@ -70,7 +121,16 @@ export default function TimesheetCommand() {
         clearInterval(syncInterval);
       };
     }
-  }, [state?.startTime]);
+  }, [state?.startTime, state?.paused, state?.timerPause]);
+
+  // Load the company's rounding rules to preview the logged time when stopping
+  useEffect(() => {
+    if (stopRequested && !roundingRules) {
+      getTimesheetRoundingRules()
+        .then(setRoundingRules)
+        .catch((error) => console.error("[Timesheet UI] Failed to load rounding rules:", error));
+    }
+  }, [stopRequested]);
 
   async function checkAuth() {
     const isLoggedIn = await hasActiveSession();
@@ -86,6 +146,8 @@ export default function TimesheetCommand() {
 
   async function handleStartTimer(projectId: number, taskId: number) {
     setIsSubmitting(true);
+    // The pair's saved description is used if it has one
+    const shortcut = await findTaskShortcut(projectId, taskId).catch(() => null);
     try {
       await showToast({
         style: Toast.Style.Animated,
@@ -93,17 +155,33 @@ export default function TimesheetCommand() {
       });
 
       // Start the timer with project and task
-      await startTimerWithDetails(projectId, taskId);
+      await startTimerWithDetails(projectId, taskId, shortcut?.description ?? undefined);
 
       await showToast({
         style: Toast.Style.Success,
         title: "Timer Started",
         message: "Tracking time to project and task",
       });
+      await checkInForTimer();
 
       // Refresh state to show timer running view
       await refresh(false);
     } catch (error) {
+      if (isOfflineError(error)) {
+        await saveForLater(
+          {
+            type: "start_timer",
+            projectId,
+            projectName: shortcut?.projectName ?? null,
+            taskId,
+            taskName: shortcut?.taskName ?? null,
+            description: shortcut?.description ?? null,
+          },
+          "The timer start",
+        );
+        return;
+      }
+
       console.error("Failed to start timer:", error);
       await showToast({
         style: Toast.Style.Failure,
@@ -115,6 +193,54 @@ export default function TimesheetCommand() {
     }
   }
 
+  async function handleResume(entry: TimesheetEntry) {
+    setIsSubmitting(true);
+    try {
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Resuming entry...",
+      });
+
+      await resumeTimesheetEntry(entry);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Timer Resumed",
+        message: `${entry.projectName} — ${entry.taskName}`,
+      });
+      await checkInForTimer();
+
+      await refresh(false);
+    } catch (error) {
+      console.error("Failed to resume entry:", error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to resume entry",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleTogglePause() {
+    if (!state?.timerId) return;
+
+    setIsSubmitting(true);
+    try {
+      if (state.paused) {
+        await resume(state.timerId);
+      } else {
+        await pause(state.timerId);
+      }
+    } catch (error) {
+      // The hook already showed a failure toast
+      console.error("Failed to pause/resume timer:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
   function handleStopTimer() {
     setStopRequested(true);
   }
@@ -146,19 +272,73 @@ export default function TimesheetCommand() {
       await showToast({
         style: Toast.Style.Success,
         title: "Timer Stopped",
-        message: `Logged ${formatDuration(result.duration)}`,
+        message: result.minimumApplied
+          ? `Logged ${formatDuration(result.duration)} (company minimum duration)`
+          : `Logged ${formatDuration(result.duration)}`,
       });
 
       setStopRequested(false);
       // Refresh state to show start form
       await refresh(false);
     } catch (error) {
+      if (isOfflineError(error)) {
+        await saveForLater({ type: "stop_timer", timerId: state.timerId, description }, "The timer stop");
+        setStopRequested(false);
+        return;
+      }
+
       console.error("Failed to stop timer:", error);
     } finally {
       setIsSubmitting(false);
     }
   }
 
+  async function handleSwitchTask(projectId: number, taskId: number, values: Form.Values) {
+    const description = (values.description as string).trim();
+    if (!description) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Description Required",
+        message: "Please describe what you worked on",
+      });
+      return;
+    }
+
+    if (!state?.timerId) return;
+
+    setIsSubmitting(true);
+    try {
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Switching task...",
+      });
+
+      const result = await switchTimer(state.timerId, projectId, taskId, description);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Task Switched",
+        message: result.minimumApplied
+          ? `Logged ${formatDuration(result.duration)} to the previous task (company minimum duration)`
+          : `Logged ${formatDuration(result.duration)} to the previous task`,
+      });
+
+      setSwitchRequested(false);
+      await refresh(false);
+    } catch (error) {
+      console.error("Failed to switch task:", error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to switch task",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+      // A failed switch restores the previous timer
+      await refresh(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
   async function handleCancelTimer() {
     if (!state?.timerId) {
       return;
@@ -212,6 +392,27 @@ export default function TimesheetCommand() {
     return <Detail isLoading={true} markdown="# Checking timer status..." />;
   }
 
+  // Switch form - describe the current work and pick the next task
+  if (state?.timerId && switchRequested) {
+    return (
+      <TaskSelector
+        onSubmit={handleSwitchTask}
+        submitTitle="Switch Task"
+        description={`Stop ${state.taskName || "the current timer"} and start another task`}
+        actions={
+          <Action title="Back" onAction={() => setSwitchRequested(false)} shortcut={{ modifiers: ["cmd"], key: "." }} />
+        }
+      >
+        <Form.TextArea
+          id="description"
+          title="Done So Far"
+          placeholder="What did you work on?"
+          defaultValue={state.description ?? ""}
+        />
+      </TaskSelector>
+    );
+  }
+
   // Stop form - prompt for description before stopping
   if (state?.timerId && stopRequested) {
     return (
@@ -227,6 +428,7 @@ export default function TimesheetCommand() {
           title="Stopping Timer"
           text={`${state.projectName || "Unknown"} — ${state.taskName || "Unknown"} (${formatDuration(elapsedSeconds)})`}
         />
+        {roundingRules && <Form.Description text={describeLoggedTime(elapsedSeconds, roundingRules)} />}
         <Form.TextArea id="description" title="Description" placeholder="What did you work on?" autoFocus />
       </Form>
     );
@@ -235,7 +437,7 @@ export default function TimesheetCommand() {
   // Timer running state
   if (state?.timerId) {
     const hasProjectAndTask = state.projectId && state.taskId;
-    const markdown = `# ⏱ Timer Running
+    const markdown = `# ${state.paused ? "⏸ Timer Paused" : "⏱ Timer Running"}
 
 ## Elapsed Time
 ${formatDuration(elapsedSeconds)}
@@ -254,6 +456,22 @@ ${!hasProjectAndTask ? "\n⚠️ **Warning:** Project or task not assigned. Plea
         actions={
           <ActionPanel>
             {hasProjectAndTask && !isSubmitting && <Action title="Stop Timer" onAction={handleStopTimer} />}
+            {hasProjectAndTask && !isSubmitting && (
+              <Action
+                title="Switch Task"
+                icon={Icon.Switch}
+                onAction={() => setSwitchRequested(true)}
+                shortcut={{ modifiers: ["cmd"], key: "s" }}
+              />
+            )}
+            {!isSubmitting && (
+              <Action
+                title={state.paused ? "Resume Timer" : "Pause Timer"}
+                icon={state.paused ? Icon.Play : Icon.Pause}
+                onAction={handleTogglePause}
+                shortcut={{ modifiers: ["cmd"], key: "p" }}
+              />
+            )}
             {!isSubmitting && (
               <Action title="Cancel Timer" onAction={handleCancelTimer} shortcut={{ modifiers: ["cmd"], key: "d" }} />
             )}
@@ -265,5 +483,5 @@ ${!hasProjectAndTask ? "\n⚠️ **Warning:** Project or task not assigned. Plea
   }
 
   // No timer running - show start form
-  return <TaskSelector onSubmit={handleStartTimer} />;
+  return <TaskSelector onSubmit={handleStartTimer} onResume={handleResume} />;
 }
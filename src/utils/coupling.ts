@@ -0,0 +1,96 @@
+/**
+ * Shared handling for the attendance/timer coupling policy
+ */
+
+import { showToast, Toast, confirmAlert } from "@raycast/api";
+import {
+  SessionExpiredError,
+  getAttendanceTimerPolicy,
+  getAttendanceStatus,
+  checkIn,
+  updateTimer,
+  stopTimer,
+  formatDuration,
+} from "./odoo";
+import { handleSessionExpired } from "./session";
+
+/**
+ * Check in after a timer starts, if the user is checked out and the policy asks for it.
+ * "ask" needs a confirmation dialog, so it is skipped where none can be shown (the menu bar).
+ * The timer is already running, so failures only show a toast.
+ */
+export async function checkInForTimer(canAsk = true): Promise<void> {
+  try {
+    const { checkInOnTimerStart: mode } = await getAttendanceTimerPolicy();
+    if (mode === "off" || (mode === "ask" && !canAsk)) return;
+
+    const status = await getAttendanceStatus(false);
+    if (status.attendance_state === "checked_in") return;
+
+    if (mode === "ask") {
+      const confirmed = await confirmAlert({
+        title: "Check In?",
+        message: "You are checked out. Check in now that the timer is running?",
+        primaryAction: { title: "Check In" },
+        dismissAction: { title: "Stay Checked Out" },
+      });
+      if (!confirmed) return;
+    }
+
+    await checkIn();
+
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Checked In",
+      message: "Checked in along with the timer",
+    });
+  } catch (error) {
+    if (error instanceof SessionExpiredError) {
+      await handleSessionExpired();
+      return;
+    }
+
+    console.error("Failed to check in for timer:", error);
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to check in",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Save the description and stop the running timer before checking out
+ * Returns false when it failed, so the check-out can be held back.
+ */
+export async function stopTimerForCheckOut(timerId: number, description: string): Promise<boolean> {
+  try {
+    await showToast({
+      style: Toast.Style.Animated,
+      title: "Stopping timer...",
+    });
+
+    await updateTimer(timerId, undefined, undefined, description);
+    const result = await stopTimer(timerId);
+
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Timer Stopped",
+      message: `Logged ${formatDuration(result.duration)}`,
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof SessionExpiredError) {
+      await handleSessionExpired();
+      return false;
+    }
+
+    console.error("Failed to stop timer for check-out:", error);
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Failed to stop timer",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+    return false;
+  }
+}
@@ -2,21 +2,55 @@
  * Attendance API for check-in/check-out functionality
  */
 
-import { getAuthenticatedClient } from "./auth";
-import { AttendanceState, CachedData } from "./types";
+import { getAuthenticatedClient, getStoredSession } from "./auth";
+import { OdooClient } from "./client";
+import {
+  AttendanceState,
+  AttendanceChangeResult,
+  AttendanceMismatchError,
+  SessionExpiredError,
+  NetworkError,
+  AttendanceRecord,
+  AttendanceDay,
+  OvertimeRecord,
+  OvertimeBalance,
+  CachedData,
+  DateRange,
+} from "./types";
 import { getStorage } from "./storage";
+import { profileKey } from "./profiles";
+import { getServerVersion } from "./version";
+import { addDays } from "./format";
+import { parseOdooDatetime, startOfUserDay, toOdooDate, toOdooDatetime, toUserDate, userToday } from "./datetime";
+import {
+  AttendanceFields,
+  AttendanceModel,
+  Condition,
+  EmployeeModel,
+  OvertimeFields,
+  OvertimeModel,
+  callMethod,
+  create,
+  eq,
+  gte,
+  lt,
+  lte,
+  search,
+  searchRead,
+  write,
+} from "./orm";
 
-// Cache configuration
+// Cache configuration (keys are namespaced per profile)
 const ATTENDANCE_CACHE_KEY = "odoo_attendance_cache";
 const ATTENDANCE_CACHE_TTL = 60 * 1000; // 1 minute
 
 async function cacheAttendanceState(state: AttendanceState): Promise<void> {
   const cached: CachedData<AttendanceState> = { data: state, timestamp: Date.now() };
-  await getStorage().setItem(ATTENDANCE_CACHE_KEY, JSON.stringify(cached));
+  await getStorage().setItem(await profileKey(ATTENDANCE_CACHE_KEY), JSON.stringify(cached));
 }
 
 async function getCachedAttendanceState(): Promise<AttendanceState | null> {
-  const raw = await getStorage().getItem(ATTENDANCE_CACHE_KEY);
+  const raw = await getStorage().getItem(await profileKey(ATTENDANCE_CACHE_KEY));
   if (!raw) return null;
 
   try {
@@ -53,22 +87,30 @@ export async function getAttendanceStatus(useCache = true): Promise<AttendanceSt
 
     return result;
   } catch (error) {
-    // If the endpoint fails, try an alternative approach
-    // Some Odoo versions might have different endpoints
+    // If the endpoint fails, read the employee record directly
+    // Some Odoo versions lack the endpoint, and API key clients cannot call web controllers
     try {
-      const result = await client.callKw<{
-        attendance_state: "checked_in" | "checked_out";
-        last_attendance_id: number | false;
-        hours_today: number;
-      }>("hr.employee", "attendance_user_data", []);
+      const session = await getStoredSession();
+      const employees = await searchRead(
+        client,
+        EmployeeModel,
+        [eq("user_id", session?.userId ?? 0)],
+        ["name", "attendance_state", "last_check_in", "last_check_out", "hours_today"],
+        { limit: 1 },
+      );
+
+      if (!employees || employees.length === 0) {
+        throw error;
+      }
 
       // Transform to our expected format
+      const employee = employees[0];
       const attendanceState: AttendanceState = {
-        attendance_state: result.attendance_state,
-        last_check_in: null,
-        last_check_out: null,
-        hours_today: result.hours_today || 0,
-        employee_name: "",
+        attendance_state: employee.attendance_state,
+        last_check_in: employee.last_check_in || null,
+        last_check_out: employee.last_check_out || null,
+        hours_today: employee.hours_today || 0,
+        employee_name: employee.name,
       };
 
       // Cache the result
@@ -81,46 +123,256 @@ export async function getAttendanceStatus(useCache = true): Promise<AttendanceSt
   }
 }
 
+// Odoo 17 replaced hr.employee.attendance_manual with the systray controller
+const SYSTRAY_MIN_VERSION = 17;
+const MY_ATTENDANCES_ACTION = "hr_attendance.hr_attendance_action_my_attendances";
+
+type AttendanceStateName = AttendanceState["attendance_state"];
+
+async function getEmployeeId(client: OdooClient): Promise<number> {
+  const session = await getStoredSession();
+  if (session?.employeeId) {
+    return session.employeeId;
+  }
+
+  const ids = await search(client, EmployeeModel, [eq("user_id", session?.userId ?? 0)], { limit: 1 });
+  if (ids.length === 0) {
+    throw new Error("No employee found for the current user");
+  }
+  return ids[0];
+}
+
 /**
- * Toggle check-in/check-out status
+ * Write the attendance record directly, for API key clients that can't reach the systray controller
+ * and for check-ins and check-outs that happened earlier
  */
-export async function toggleCheckInOut(): Promise<AttendanceState> {
-  const client = await getAuthenticatedClient();
+async function writeAttendance(client: OdooClient, target: AttendanceStateName, at = new Date()): Promise<void> {
+  const employeeId = await getEmployeeId(client);
 
-  try {
-    // Call Odoo's check-in/out toggle endpoint
-    const result = await client.request<AttendanceState>("/hr_attendance/systray_check_in_out", {});
+  if (target === "checked_in") {
+    await create(client, AttendanceModel, { employee_id: employeeId, check_in: toOdooDatetime(at) });
+    return;
+  }
 
-    // Cache the new state
-    await cacheAttendanceState(result);
+  const open = await search(client, AttendanceModel, [eq("employee_id", employeeId), eq("check_out", false)], {
+    limit: 1,
+  });
+  if (open.length > 0) {
+    await write(client, AttendanceModel, open, { check_out: toOdooDatetime(at) });
+  }
+}
 
-    return result;
+/**
+ * Ask Odoo to flip the attendance with the endpoint the server version provides:
+ * the systray controller (or hr.attendance with an API key) from 17.0, attendance_manual before.
+ * When the version can't be read, the controller is tried first.
+ */
+async function changeAttendance(target: AttendanceStateName): Promise<void> {
+  const client = await getAuthenticatedClient();
+
+  let major: number | null = null;
+  try {
+    major = (await getServerVersion()).major;
   } catch (error) {
-    // If the endpoint fails, try an alternative approach
-    try {
-      const currentState = await getAttendanceStatus(false);
-
-      // Call the appropriate method based on current state
-      if (currentState.attendance_state === "checked_out") {
-        // Check in
-        await client.callKw("hr.employee", "attendance_manual", [
-          [], // No specific employee IDs (uses current user's employee)
-          "hr_attendance.hr_attendance_action_my_attendances",
-        ]);
-      } else {
-        // Check out
-        await client.callKw("hr.employee", "attendance_manual", [
-          [], // No specific employee IDs (uses current user's employee)
-          "hr_attendance.hr_attendance_action_my_attendances",
-        ]);
+    if (error instanceof SessionExpiredError || error instanceof NetworkError) {
+      throw error;
+    }
+    console.log("[Attendance] Cannot detect the server version:", error instanceof Error ? error.message : error);
+  }
+
+  if (major === null || major >= SYSTRAY_MIN_VERSION) {
+    if (client.usesApiKey()) {
+      if (major !== null) {
+        await writeAttendance(client, target);
+        return;
+      }
+    } else {
+      try {
+        await client.request<AttendanceState>("/hr_attendance/systray_check_in_out", {});
+        return;
+      } catch (error) {
+        if (major !== null || error instanceof SessionExpiredError || error instanceof NetworkError) {
+          throw error;
+        }
+        console.log("[Attendance] Systray endpoint unavailable, using attendance_manual");
       }
+    }
+  }
 
-      // Fetch the new state
-      return await getAttendanceStatus(false);
-    } catch {
-      throw error; // Throw the original error
+  // attendance_manual toggles a single employee, so it must be given the user's own
+  const employeeId = await getEmployeeId(client);
+  await callMethod(client, EmployeeModel, "attendance_manual", [[employeeId], MY_ATTENDANCES_ACTION]);
+}
+
+/**
+ * Move to the requested attendance state and confirm it with a fresh read
+ * Does nothing when Odoo already reports that state; throws AttendanceMismatchError
+ * when Odoo doesn't report it afterwards.
+ * Odoo's endpoints always use the current time, so an earlier time is written to hr.attendance directly.
+ */
+async function setAttendanceState(target: AttendanceStateName, at?: Date): Promise<AttendanceChangeResult> {
+  const current = await getAttendanceStatus(false);
+  if (current.attendance_state === target) {
+    console.log(`[Attendance] Already ${target}, nothing to do`);
+    return { state: current, changed: false };
+  }
+
+  if (at) {
+    await writeAttendance(await getAuthenticatedClient(), target, at);
+  } else {
+    await changeAttendance(target);
+  }
+
+  const state = await getAttendanceStatus(false);
+  if (state.attendance_state !== target) {
+    throw new AttendanceMismatchError(target, state);
+  }
+  return { state, changed: true };
+}
+
+/**
+ * Check in, unless already checked in
+ * Pass the time for a check-in that happened earlier, such as one made offline.
+ */
+export async function checkIn(at?: Date): Promise<AttendanceChangeResult> {
+  return setAttendanceState("checked_in", at);
+}
+
+/**
+ * Check out, unless already checked out
+ * Pass the time for a check-out that happened earlier, such as one made offline.
+ */
+export async function checkOut(at?: Date): Promise<AttendanceChangeResult> {
+  return setAttendanceState("checked_out", at);
+}
+
+/**
+ * Toggle check-in/check-out status based on Odoo's current state
+ * Prefer checkIn() or checkOut() when acting on a state shown to the user, which may be stale
+ */
+export async function toggleCheckInOut(): Promise<AttendanceState> {
+  const current = await getAttendanceStatus(false);
+  const result = current.attendance_state === "checked_in" ? await checkOut() : await checkIn();
+  return result.state;
+}
+
+function toUserDay(iso: string): string {
+  return toOdooDate(toUserDate(parseOdooDatetime(iso)));
+}
+
+/**
+ * Get the current user's attendance sessions that started within a date range, newest first
+ */
+export async function getAttendanceHistory(range: DateRange): Promise<AttendanceRecord[]> {
+  const client = await getAuthenticatedClient();
+  const session = await getStoredSession();
+
+  // Midnights in the user's timezone, so sessions land on the day they started for the user
+  const from = startOfUserDay(range.from);
+  const to = startOfUserDay(addDays(range.to, 1));
+  const ownerFilter: Condition<AttendanceFields> = session?.employeeId
+    ? eq("employee_id", session.employeeId)
+    : eq("employee_id.user_id", session?.userId ?? 0);
+
+  const records = await searchRead(
+    client,
+    AttendanceModel,
+    [ownerFilter, gte("check_in", toOdooDatetime(from)), lt("check_in", toOdooDatetime(to))],
+    ["check_in", "check_out", "worked_hours"],
+    { order: "check_in desc" },
+  );
+
+  return records.map((record) => {
+    const checkIn = parseOdooDatetime(record.check_in).toISOString();
+    return {
+      id: record.id,
+      checkIn,
+      checkOut: record.check_out ? parseOdooDatetime(record.check_out).toISOString() : null,
+      // Odoo only computes worked hours once checked out
+      workedHours: record.check_out
+        ? record.worked_hours || 0
+        : Math.max(0, (Date.now() - new Date(checkIn).getTime()) / 3600000),
+    };
+  });
+}
+
+/**
+ * Group attendance sessions by the user's day, newest day first, with worked hours and gaps between sessions
+ */
+export function groupAttendanceByDay(records: AttendanceRecord[]): AttendanceDay[] {
+  const days = new Map<string, AttendanceDay>();
+  const sorted = [...records].sort((a, b) => a.checkIn.localeCompare(b.checkIn));
+
+  for (const record of sorted) {
+    const date = toUserDay(record.checkIn);
+    const day = days.get(date) ?? { date, sessions: [], workedHours: 0, gapHours: 0 };
+
+    const previous = day.sessions[day.sessions.length - 1];
+    if (previous?.checkOut) {
+      day.gapHours += Math.max(
+        0,
+        (new Date(record.checkIn).getTime() - new Date(previous.checkOut).getTime()) / 3600000,
+      );
     }
+
+    day.sessions.push(record);
+    day.workedHours += record.workedHours;
+    days.set(date, day);
+  }
+
+  return [...days.values()].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Get the current user's overtime records (hr.attendance.overtime) within a date range, newest first
+ * Odoo keeps one record per day with overtime, plus any manual adjustments by HR
+ */
+export async function getOvertimeRecords(range: DateRange): Promise<OvertimeRecord[]> {
+  const client = await getAuthenticatedClient();
+  const session = await getStoredSession();
+
+  const ownerFilter: Condition<OvertimeFields> = session?.employeeId
+    ? eq("employee_id", session.employeeId)
+    : eq("employee_id.user_id", session?.userId ?? 0);
+
+  const records = await searchRead(
+    client,
+    OvertimeModel,
+    [ownerFilter, gte("date", toOdooDate(range.from)), lte("date", toOdooDate(range.to))],
+    ["date", "duration", "adjustment"],
+    { order: "date desc" },
+  );
+
+  return records.map((record) => ({
+    id: record.id,
+    date: record.date,
+    hours: record.duration || 0,
+    adjustment: !!record.adjustment,
+  }));
+}
+
+/**
+ * Get the employee's overtime balance and today's surplus or deficit
+ * Odoo updates overtime when attendances change, so an open session counts once checked out
+ */
+export async function getOvertimeBalance(): Promise<OvertimeBalance> {
+  const client = await getAuthenticatedClient();
+  const session = await getStoredSession();
+  const today = userToday();
+
+  const [employees, records] = await Promise.all([
+    searchRead(client, EmployeeModel, [eq("user_id", session?.userId ?? 0)], ["total_overtime"], { limit: 1 }),
+    getOvertimeRecords({ from: today, to: today }),
+  ]);
+
+  if (!employees || employees.length === 0) {
+    throw new Error("No employee found for the current user");
   }
+
+  return {
+    balance: employees[0].total_overtime || 0,
+    today: records.filter((record) => !record.adjustment).reduce((sum, record) => sum + record.hours, 0),
+  };
 }
 
 /**
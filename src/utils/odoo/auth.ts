@@ -3,24 +3,69 @@
  */
 
 import { OdooClient } from "./client";
-import { SessionInfo, LoginResponse, SessionExpiredError } from "./types";
-import { getStorage } from "./storage";
-
-// Storage keys
+import {
+  SessionInfo,
+  PasswordSessionInfo,
+  ApiKeySessionInfo,
+  DatabaseLookup,
+  LoginOptions,
+  LoginResponse,
+  TotpChallenge,
+  OdooApiError,
+  SessionExpiredError,
+  TwoFactorRequiredError,
+} from "./types";
+import { getStorage, getCredentialStorage } from "./storage";
+import { setUserTimeZone } from "./datetime";
+import { addProfile, defaultProfileName, getActiveProfile, namespacedKey, removeProfile } from "./profiles";
+
+// Storage keys (namespaced per profile)
 const STORAGE_KEYS = {
   SESSION: "odoo_session",
   USER_INFO: "odoo_user_info",
   ATTENDANCE_CACHE: "odoo_attendance_cache",
   TIMER_CACHE: "odoo_timer_cache",
+  ROUNDING_CACHE: "odoo_timesheet_rounding",
+  SCHEDULE_CACHE: "odoo_working_schedule",
+  PROGRESS_CACHE: "odoo_hour_progress",
+  VERSION_CACHE: "odoo_server_version",
 } as const;
 
-async function saveSession(session: SessionInfo): Promise<void> {
-  console.log(`[Storage] Saving session: ${JSON.stringify(session)}`);
-  await getStorage().setItem(STORAGE_KEYS.SESSION, JSON.stringify(session));
+// Kept in the credential storage, never in the regular storage
+const CREDENTIALS_KEY = "odoo_credentials";
+
+interface StoredCredentials {
+  baseUrl: string;
+  database: string;
+  username: string;
+  password: string;
+}
+
+// In-flight silent re-logins, so parallel requests share one login per profile
+const pendingReauth = new Map<string, Promise<PasswordSessionInfo | null>>();
+
+// Sessions hold the session ID or API key, so logs only say whose session it is
+function describeSession(session: SessionInfo): string {
+  return `${session.username} on ${session.baseUrl} (${session.authType ?? "password"})`;
 }
 
-async function getSession(): Promise<SessionInfo | null> {
-  const sessionStr = await getStorage().getItem(STORAGE_KEYS.SESSION);
+async function saveSession(session: SessionInfo, profile: string, activate = true): Promise<void> {
+  console.log(`[Storage] Saving session for profile "${profile}": ${describeSession(session)}`);
+  await getStorage().setItem(namespacedKey(STORAGE_KEYS.SESSION, profile), JSON.stringify(session));
+  if (activate) {
+    await addProfile(profile);
+    setUserTimeZone(session.tz);
+  }
+}
+
+async function getSession(profile?: string): Promise<SessionInfo | null> {
+  const name = profile ?? (await getActiveProfile());
+  if (!name) {
+    console.log(`[Storage] No active profile`);
+    return null;
+  }
+
+  const sessionStr = await getStorage().getItem(namespacedKey(STORAGE_KEYS.SESSION, name));
   if (!sessionStr) {
     console.log(`[Storage] No session found in storage`);
     return null;
@@ -28,7 +73,10 @@ async function getSession(): Promise<SessionInfo | null> {
 
   try {
     const session = JSON.parse(sessionStr) as SessionInfo;
-    console.log(`[Storage] Loaded session from storage: ${JSON.stringify(session)}`);
+    console.log(`[Storage] Loaded session from storage: ${describeSession(session)}`);
+    if (!profile) {
+      setUserTimeZone(session.tz);
+    }
     return session;
   } catch {
     console.log(`[Storage] Failed to parse session from storage`);
@@ -36,12 +84,36 @@ async function getSession(): Promise<SessionInfo | null> {
   }
 }
 
-async function clearSession(): Promise<void> {
+async function clearSession(profile: string): Promise<void> {
   const storage = getStorage();
-  await storage.removeItem(STORAGE_KEYS.SESSION);
-  await storage.removeItem(STORAGE_KEYS.USER_INFO);
-  await storage.removeItem(STORAGE_KEYS.ATTENDANCE_CACHE);
-  await storage.removeItem(STORAGE_KEYS.TIMER_CACHE);
+  for (const key of Object.values(STORAGE_KEYS)) {
+    await storage.removeItem(namespacedKey(key, profile));
+  }
+  await clearCredentials(profile);
+}
+
+async function saveCredentials(profile: string, credentials: StoredCredentials): Promise<void> {
+  const storage = getCredentialStorage();
+  if (!storage) {
+    console.log(`[Storage] No credential storage configured, not saving credentials`);
+    return;
+  }
+  await storage.setItem(namespacedKey(CREDENTIALS_KEY, profile), JSON.stringify(credentials));
+}
+
+async function getCredentials(profile: string): Promise<StoredCredentials | null> {
+  const raw = await getCredentialStorage()?.getItem(namespacedKey(CREDENTIALS_KEY, profile));
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw) as StoredCredentials;
+  } catch {
+    return null;
+  }
+}
+
+async function clearCredentials(profile: string): Promise<void> {
+  await getCredentialStorage()?.removeItem(namespacedKey(CREDENTIALS_KEY, profile));
 }
 
 /**
@@ -59,12 +131,12 @@ async function fetchDatabaseList(baseUrl: string): Promise<string[]> {
 }
 
 /**
- * Extract database name from Odoo URL
- * For odoo.com hosted instances, queries the server for available databases
- * and matches against the subdomain. Falls back to subdomain if the endpoint
- * is unavailable. For custom domains, returns empty string to auto-detect.
+ * Guess the database name for an Odoo URL from the server's database list
+ * For odoo.com hosted instances, matches the list against the subdomain and
+ * falls back to the subdomain if the list is unavailable. For custom domains,
+ * returns empty string to auto-detect unless the server hosts a single database.
  */
-async function extractDatabaseName(url: string): Promise<string> {
+function guessDatabaseName(url: string, databases: string[]): string {
   try {
     const parsedUrl = new URL(url);
     const hostname = parsedUrl.hostname;
@@ -73,9 +145,6 @@ async function extractDatabaseName(url: string): Promise<string> {
     if (hostname.endsWith(".odoo.com")) {
       const subdomain = hostname.replace(/\.(dev\.)?odoo\.com$/, "");
 
-      // Query the server for available databases
-      const databases = await fetchDatabaseList(url);
-
       if (databases.length === 1) {
         // Only one database available — use it directly
         return databases[0];
@@ -95,8 +164,7 @@ async function extractDatabaseName(url: string): Promise<string> {
       return subdomain;
     }
 
-    // For custom domains, try the database list endpoint first
-    const databases = await fetchDatabaseList(url);
+    // For custom domains, only a single listed database is a safe guess
     if (databases.length === 1) {
       return databases[0];
     }
@@ -108,88 +176,337 @@ async function extractDatabaseName(url: string): Promise<string> {
   }
 }
 
+/**
+ * Extract database name from Odoo URL, querying the server for available databases
+ */
+async function extractDatabaseName(url: string): Promise<string> {
+  const databases = await fetchDatabaseList(url);
+  return guessDatabaseName(url, databases);
+}
+
+/**
+ * List the databases hosted on an Odoo server along with the best guess for the URL
+ * An empty list means the server has database listing disabled
+ */
+export async function lookupDatabases(baseUrl: string): Promise<DatabaseLookup> {
+  const normalizedUrl = OdooClient.normalizeUrl(baseUrl);
+  if (!OdooClient.isValidUrl(normalizedUrl)) {
+    return { databases: [], suggested: "" };
+  }
+
+  const databases = await fetchDatabaseList(normalizedUrl);
+  return { databases, suggested: guessDatabaseName(normalizedUrl, databases) };
+}
+
+/**
+ * Fill in the employee linked to the logged-in user
+ * Failures are logged and ignored - not every user has an employee record
+ */
+async function populateEmployeeInfo(client: OdooClient, sessionInfo: SessionInfo): Promise<void> {
+  try {
+    const employeeData = await client.callKw<{ id: number; name: string }[]>(
+      "hr.employee",
+      "search_read",
+      [[["user_id", "=", sessionInfo.userId]]], // Domain as first positional argument
+      {
+        fields: ["id", "name"],
+        limit: 1,
+      },
+    );
+
+    if (employeeData && employeeData.length > 0) {
+      sessionInfo.employeeId = employeeData[0].id;
+      sessionInfo.employeeName = employeeData[0].name;
+    }
+  } catch (error) {
+    // If we can't get employee info, that's okay - continue with login
+    console.error("Could not fetch employee info:", error);
+  }
+}
+
+/**
+ * Authenticate with a password and collect the session details, without saving anything
+ * Throws TwoFactorRequiredError when Odoo expects a TOTP code
+ */
+async function authenticateWithPassword(
+  normalizedUrl: string,
+  dbName: string,
+  username: string,
+  password: string,
+  profileName: string,
+): Promise<PasswordSessionInfo> {
+  // Create client without session for login
+  const client = new OdooClient(normalizedUrl);
+
+  // Attempt login
+  const response = await client.request<LoginResponse["result"]>("/web/session/authenticate", {
+    db: dbName,
+    login: username,
+    password: password,
+  });
+
+  // Odoo accepts the password but withholds the uid until the TOTP step is completed
+  if (response && response.uid === null) {
+    throw new TwoFactorRequiredError({
+      profile: profileName,
+      baseUrl: normalizedUrl,
+      database: dbName,
+      username,
+      cookies: client.getCookies(),
+    });
+  }
+
+  // Check if login was successful
+  if (!response || !response.uid) {
+    throw new Error("Invalid username or password");
+  }
+
+  // Extract session information including cookies
+  const capturedCookies = client.getCookies();
+
+  // Extract session_id from cookies if not in response
+  let sessionId = response.session_id;
+  if (!sessionId && capturedCookies.length > 0) {
+    const sessionCookie = capturedCookies.find((c) => c.startsWith("session_id="));
+    if (sessionCookie) {
+      sessionId = sessionCookie.split("=")[1];
+      console.log(`[Auth] Took the session ID from the session_id cookie`);
+    }
+  }
+
+  const sessionInfo: PasswordSessionInfo = {
+    authType: "password",
+    sessionId: sessionId || "",
+    baseUrl: normalizedUrl,
+    userId: response.uid,
+    companyId: response.company_id,
+    employeeId: 0, // Will be populated by getting employee info
+    employeeName: response.name || username,
+    username: response.username || username,
+    tz: response.user_context?.tz || undefined,
+    cookies: capturedCookies, // Get cookies from the client
+  };
+
+  // Try to get employee information
+  client.setSession(sessionId || "", capturedCookies);
+  await populateEmployeeInfo(client, sessionInfo);
+
+  return sessionInfo;
+}
+
 /**
  * Login to Odoo and save session
  */
-export async function login(baseUrl: string, username: string, password: string): Promise<SessionInfo> {
+export async function login(
+  baseUrl: string,
+  username: string,
+  password: string,
+  options: LoginOptions = {},
+): Promise<SessionInfo> {
   // Normalize URL
   const normalizedUrl = OdooClient.normalizeUrl(baseUrl);
+  const profileName = options.profile || defaultProfileName(normalizedUrl, username);
 
   // Validate URL format
   if (!OdooClient.isValidUrl(normalizedUrl)) {
     throw new Error("Invalid Odoo URL format");
   }
 
-  // Extract database name from URL (queries server for available databases)
-  const dbName = await extractDatabaseName(normalizedUrl);
+  // Use the chosen database, or extract it from the URL (queries server for available databases)
+  const dbName = options.database || (await extractDatabaseName(normalizedUrl));
 
-  // Create client without session for login
-  const client = new OdooClient(normalizedUrl);
+  try {
+    const sessionInfo = await authenticateWithPassword(normalizedUrl, dbName, username, password, profileName);
+
+    // Save session to storage
+    await saveSession(sessionInfo, profileName);
+
+    // Keep the password only if asked to, for silent re-login when the session expires
+    if (options.rememberCredentials) {
+      await saveCredentials(profileName, { baseUrl: normalizedUrl, database: dbName, username, password });
+    } else {
+      await clearCredentials(profileName);
+    }
+
+    return sessionInfo;
+  } catch (error) {
+    if (error instanceof TwoFactorRequiredError) {
+      throw error;
+    }
+    if (error instanceof Error) {
+      throw new Error(`Login failed: ${error.message}`);
+    }
+    throw new Error("Login failed: Unknown error");
+  }
+}
 
+/**
+ * Log in again with the saved credentials of a profile
+ * Resolves to null when there are no saved credentials or the login fails (e.g. the password changed)
+ */
+async function reauthenticate(profile: string): Promise<PasswordSessionInfo | null> {
+  const pending = pendingReauth.get(profile);
+  if (pending) {
+    return pending;
+  }
+
+  const attempt = (async () => {
+    const credentials = await getCredentials(profile);
+    if (!credentials) {
+      console.log(`[Auth] No saved credentials for profile "${profile}", cannot re-authenticate`);
+      return null;
+    }
+
+    try {
+      const { baseUrl, database, username, password } = credentials;
+      const session = await authenticateWithPassword(baseUrl, database, username, password, profile);
+      // Don't change the active profile - the user may have switched in the meantime
+      await saveSession(session, profile, false);
+      console.log(`[Auth] Re-authenticated profile "${profile}"`);
+      return session;
+    } catch (error) {
+      console.error(`[Auth] Silent re-login failed for profile "${profile}":`, error);
+      return null;
+    }
+  })();
+
+  pendingReauth.set(profile, attempt);
   try {
-    // Attempt login
-    const response = await client.request<LoginResponse["result"]>("/web/session/authenticate", {
-      db: dbName,
-      login: username,
-      password: password,
-    });
+    return await attempt;
+  } finally {
+    pendingReauth.delete(profile);
+  }
+}
+
+/**
+ * Complete a login that stopped at the two-factor step by submitting the TOTP code
+ * Mirrors the browser flow: load /web/login/totp for its CSRF token, then post the code
+ */
+export async function completeTotpLogin(challenge: TotpChallenge, code: string): Promise<SessionInfo> {
+  const client = new OdooClient(challenge.baseUrl, null, challenge.cookies);
+
+  try {
+    const form = await client.requestPage("/web/login/totp");
+    const csrfToken = form.body.match(/name="csrf_token"\s+value="([^"]+)"/)?.[1];
+    if (!csrfToken) {
+      throw new Error("Two-factor session expired, please login again");
+    }
 
-    // Check if login was successful
-    if (!response || !response.uid) {
-      throw new Error("Invalid username or password");
+    // A successful verification redirects; a wrong code re-renders the form with an error
+    const result = await client.requestPage("/web/login/totp", {
+      csrf_token: csrfToken,
+      totp_token: code.replace(/\s/g, ""),
+      redirect: "/odoo",
+    });
+    if (result.status < 300 || result.status >= 400) {
+      throw new Error("Invalid verification code");
     }
 
-    // Extract session information including cookies
-    const capturedCookies = client.getCookies();
-    console.log(`[Auth] Captured cookies after login: ${JSON.stringify(capturedCookies)}`);
-    console.log(`[Auth] Session ID from response: ${response.session_id}`);
+    const sessionCookie = client.getCookies().find((c) => c.startsWith("session_id="));
+    const sessionId = sessionCookie ? sessionCookie.split("=")[1] : "";
+    client.setSession(sessionId, client.getCookies());
 
-    // Extract session_id from cookies if not in response
-    let sessionId = response.session_id;
-    if (!sessionId && capturedCookies.length > 0) {
-      const sessionCookie = capturedCookies.find((c) => c.startsWith("session_id="));
-      if (sessionCookie) {
-        sessionId = sessionCookie.split("=")[1];
-        console.log(`[Auth] Extracted session ID from cookie: ${sessionId}`);
-      }
+    const info = await client.request<LoginResponse["result"]>("/web/session/get_session_info", {});
+    if (!info || !info.uid) {
+      throw new Error("Invalid verification code");
     }
 
     const sessionInfo: SessionInfo = {
-      sessionId: sessionId || "",
+      authType: "password",
+      sessionId,
+      baseUrl: challenge.baseUrl,
+      userId: info.uid,
+      companyId: info.company_id,
+      employeeId: 0, // Will be populated by getting employee info
+      employeeName: info.name || challenge.username,
+      username: info.username || challenge.username,
+      tz: info.user_context?.tz || undefined,
+      cookies: client.getCookies(),
+    };
+
+    await populateEmployeeInfo(client, sessionInfo);
+
+    // Save session to storage
+    await saveSession(sessionInfo, challenge.profile);
+
+    return sessionInfo;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Login failed: ${error.message}`);
+    }
+    throw new Error("Login failed: Unknown error");
+  }
+}
+
+/**
+ * Login to Odoo with an API key and save the credentials
+ * Uses the external /jsonrpc API, which works for accounts with two-factor authentication
+ */
+export async function loginWithApiKey(
+  baseUrl: string,
+  username: string,
+  apiKey: string,
+  options: LoginOptions = {},
+): Promise<SessionInfo> {
+  // Normalize URL
+  const normalizedUrl = OdooClient.normalizeUrl(baseUrl);
+  const profileName = options.profile || defaultProfileName(normalizedUrl, username);
+
+  // Validate URL format
+  if (!OdooClient.isValidUrl(normalizedUrl)) {
+    throw new Error("Invalid Odoo URL format");
+  }
+
+  try {
+    // The external API has no session to pick a default database from
+    const dbName = options.database || (await extractDatabaseName(normalizedUrl));
+    if (!dbName) {
+      throw new Error("Could not determine the Odoo database for this URL");
+    }
+
+    const client = new OdooClient(normalizedUrl);
+    const uid = await client.request<number | false>("/jsonrpc", {
+      service: "common",
+      method: "authenticate",
+      args: [dbName, username, apiKey, {}],
+    });
+
+    if (!uid) {
+      throw new Error("Invalid username or API key");
+    }
+
+    const sessionInfo: ApiKeySessionInfo = {
+      authType: "api_key",
+      database: dbName,
+      apiKey,
       baseUrl: normalizedUrl,
-      userId: response.uid,
-      companyId: response.company_id,
+      userId: uid,
+      companyId: 0,
       employeeId: 0, // Will be populated by getting employee info
-      employeeName: response.name || username,
-      username: response.username || username,
-      cookies: capturedCookies, // Get cookies from the client
+      employeeName: username,
+      username,
     };
 
-    // Try to get employee information
-    try {
-      client.setSession(sessionId || "", capturedCookies);
-      console.log(`[Auth] Set session on client. SessionID: ${client.getSession()}`);
-      const employeeData = await client.callKw<{ id: number; name: string }[]>(
-        "hr.employee",
-        "search_read",
-        [[["user_id", "=", response.uid]]], // Domain as first positional argument
-        {
-          fields: ["id", "name"],
-          limit: 1,
-        },
-      );
-
-      if (employeeData && employeeData.length > 0) {
-        sessionInfo.employeeId = employeeData[0].id;
-        sessionInfo.employeeName = employeeData[0].name;
-      }
-    } catch (error) {
-      // If we can't get employee info, that's okay - continue with login
-      console.error("Could not fetch employee info:", error);
+    const apiClient = new OdooClient(normalizedUrl, null, [], {
+      apiKey: { database: dbName, uid, apiKey },
+    });
+
+    // The external API does not return user details, so read them separately
+    const users = await apiClient.callKw<{ name: string; company_id: [number, string] | false; tz: string | false }[]>(
+      "res.users",
+      "read",
+      [[uid], ["name", "company_id", "tz"]],
+    );
+    if (users && users.length > 0) {
+      sessionInfo.employeeName = users[0].name;
+      sessionInfo.companyId = users[0].company_id ? users[0].company_id[0] : 0;
+      sessionInfo.tz = users[0].tz || undefined;
     }
 
+    await populateEmployeeInfo(apiClient, sessionInfo);
+
     // Save session to storage
-    await saveSession(sessionInfo);
+    await saveSession(sessionInfo, profileName);
 
     return sessionInfo;
   } catch (error) {
@@ -201,19 +518,26 @@ export async function login(baseUrl: string, username: string, password: string)
 }
 
 /**
- * Get stored session and validate it's still active
+ * Get the stored session of a profile (the active one by default)
  */
-export async function getStoredSession(): Promise<SessionInfo | null> {
-  return await getSession();
+export async function getStoredSession(profile?: string): Promise<SessionInfo | null> {
+  return await getSession(profile);
 }
 
 /**
- * Logout and clear session
+ * Logout of the active profile and forget it
+ * Another saved profile, if any, becomes active
  */
 export async function logout(): Promise<void> {
-  const session = await getSession();
+  const profile = await getActiveProfile();
+  if (!profile) {
+    return;
+  }
 
-  if (session) {
+  const session = await getSession(profile);
+
+  // API keys have no server-side session to destroy
+  if (session && session.authType !== "api_key") {
     try {
       // Attempt to call logout endpoint
       const client = new OdooClient(session.baseUrl, session.sessionId, session.cookies || []);
@@ -225,23 +549,69 @@ export async function logout(): Promise<void> {
   }
 
   // Clear local session data
-  await clearSession();
+  await clearSession(profile);
+  await removeProfile(profile);
 }
 
 /**
  * Create an authenticated client from stored session
  */
 export async function getAuthenticatedClient(): Promise<OdooClient> {
-  const session = await getSession();
+  const profile = await getActiveProfile();
+  const session = profile ? await getSession(profile) : null;
 
-  if (!session) {
+  if (!profile || !session) {
     throw new SessionExpiredError("No active session found");
   }
 
-  console.log(`[Auth] Creating client with session ID: ${session.sessionId}`);
-  console.log(`[Auth] Creating client with cookies: ${JSON.stringify(session.cookies)}`);
+  if (session.authType === "api_key") {
+    console.log(`[Auth] Creating API key client for user ${session.userId} on ${session.database}`);
+    return new OdooClient(session.baseUrl, null, [], {
+      apiKey: { database: session.database, uid: session.userId, apiKey: session.apiKey },
+    });
+  }
+
+  console.log(`[Auth] Creating session client for user ${session.userId} on ${session.baseUrl}`);
+
+  return new OdooClient(session.baseUrl, session.sessionId, session.cookies || [], {
+    onSessionExpired: async () => {
+      const renewed = await reauthenticate(profile);
+      return renewed ? { sessionId: renewed.sessionId, cookies: renewed.cookies || [] } : null;
+    },
+  });
+}
+
+/**
+ * Check with the server that the active profile's session is still valid
+ * An expired password session is renewed on the way if credentials were saved.
+ * Network errors are thrown rather than reported as an invalid session.
+ */
+export async function validateSession(): Promise<boolean> {
+  const session = await getSession();
+  if (!session) {
+    return false;
+  }
+
+  const client = await getAuthenticatedClient();
+
+  try {
+    if (session.authType === "api_key") {
+      // The external API has no session; a revoked key fails with AccessDenied
+      const users = await client.callKw<{ id: number }[]>("res.users", "read", [[session.userId], ["id"]]);
+      return users.length > 0;
+    }
 
-  return new OdooClient(session.baseUrl, session.sessionId, session.cookies || []);
+    const info = await client.request<LoginResponse["result"]>("/web/session/get_session_info", {});
+    return !!info?.uid;
+  } catch (error) {
+    if (error instanceof SessionExpiredError) {
+      return false;
+    }
+    if (error instanceof OdooApiError && error.debug?.includes("AccessDenied")) {
+      return false;
+    }
+    throw error;
+  }
 }
 
 /**
@@ -2,19 +2,108 @@
  * Core Odoo API client for handling HTTP requests and session management
  */
 
-import fetch from "node-fetch";
-import { JsonRpcRequest, JsonRpcResponse, OdooApiError, SessionExpiredError } from "./types";
+import {
+  ApiKeyCredentials,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  NetworkError,
+  OdooApiError,
+  RequestTimeoutError,
+  SessionExpiredError,
+} from "./types";
+import { OdooTransport, TransportResponse, getTransport } from "./transport";
+
+// Re-establishes an expired session; resolves to null when that is not possible
+export type ReauthHandler = () => Promise<{ sessionId: string; cookies: string[] } | null>;
+
+export interface OdooClientOptions {
+  transport?: OdooTransport;
+  onSessionExpired?: ReauthHandler; // Called once per request before a SessionExpiredError is surfaced
+  apiKey?: ApiKeyCredentials; // Authenticate every call with uid and API key instead of a session cookie
+  timeoutMs?: number; // Per-attempt timeout
+  maxRetries?: number; // Extra attempts for idempotent calls
+  retryDelayMs?: number; // Base delay, doubled on every retry
+  maxRetryDelayMs?: number;
+}
+
+export interface RequestOptions {
+  idempotent?: boolean; // Only idempotent requests are retried
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_MAX_RETRY_DELAY_MS = 5 * 1000;
+
+// Model methods that only read data and are safe to send again
+const IDEMPOTENT_METHODS = new Set([
+  "search",
+  "search_read",
+  "search_count",
+  "read",
+  "read_group",
+  "name_search",
+  "fields_get",
+  "get_running_timer",
+  "get_server_time",
+]);
+
+// Endpoints that only read data and are safe to send again
+const IDEMPOTENT_ENDPOINTS = new Set([
+  "/web/database/list",
+  "/web/session/get_session_info",
+  "/hr_attendance/attendance_user_data",
+]);
+
+// Web controllers that only accept a cookie session
+const SESSION_ONLY_PREFIXES = ["/web/", "/hr_attendance/"];
+
+// Odoo reports an expired or unknown session as JSON-RPC error 100
+const SESSION_EXPIRED_CODE = 100;
+const SESSION_EXPIRED_EXCEPTION = "odoo.http.SessionExpiredException";
+
+// Gateway errors usually mean a busy or restarting Odoo worker
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Cookie values carry the session, so only their names are logged
+function cookieNames(cookies: string[]): string {
+  return cookies.map((cookie) => cookie.split("=")[0]).join(", ") || "none";
+}
 
 export class OdooClient {
   private baseUrl: string;
   private sessionId: string | null;
   private cookies: string[] = [];
   private requestId = 1;
-
-  constructor(baseUrl: string, sessionId: string | null = null, cookies: string[] = []) {
+  private transport: OdooTransport;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private maxRetryDelayMs: number;
+  private apiKey: ApiKeyCredentials | null;
+  private onSessionExpired: ReauthHandler | null;
+
+  constructor(
+    baseUrl: string,
+    sessionId: string | null = null,
+    cookies: string[] = [],
+    options: OdooClientOptions = {},
+  ) {
     // Ensure baseUrl doesn't have trailing slash
     this.baseUrl = baseUrl.replace(/\/$/, "");
     this.sessionId = sessionId;
+    this.transport = options.transport ?? getTransport();
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+    this.apiKey = options.apiKey ?? null;
+    this.onSessionExpired = options.onSessionExpired ?? null;
 
     // Initialize cookies if session ID is provided
     if (cookies.length > 0) {
@@ -23,23 +112,20 @@ export class OdooClient {
       this.cookies = [`session_id=${sessionId}`];
     }
 
-    console.log(`[OdooClient] Constructor - SessionID: ${this.sessionId}, Cookies: ${JSON.stringify(this.cookies)}`);
+    console.log(`[OdooClient] Created client for ${this.baseUrl} with cookies: ${cookieNames(this.cookies)}`);
   }
 
   /**
    * Set the session ID for authenticated requests
    */
   setSession(sessionId: string, cookies: string[] = []): void {
-    console.log(`[OdooClient] setSession called - SessionID: ${sessionId}, Cookies: ${JSON.stringify(cookies)}`);
     this.sessionId = sessionId;
     if (cookies.length > 0) {
       this.cookies = cookies;
     } else {
       this.cookies = [`session_id=${sessionId}`];
     }
-    console.log(
-      `[OdooClient] After setSession - SessionID: ${this.sessionId}, Cookies: ${JSON.stringify(this.cookies)}`,
-    );
+    console.log(`[OdooClient] Session set with cookies: ${cookieNames(this.cookies)}`);
   }
 
   /**
@@ -49,6 +135,13 @@ export class OdooClient {
     return this.sessionId;
   }
 
+  /**
+   * Whether this client authenticates with an API key rather than a session cookie
+   */
+  usesApiKey(): boolean {
+    return this.apiKey !== null;
+  }
+
   /**
    * Get all cookies for session persistence
    */
@@ -59,13 +152,11 @@ export class OdooClient {
   /**
    * Update cookies from response headers
    */
-  private updateCookiesFromResponse(response: Response): void {
+  private updateCookiesFromResponse(response: TransportResponse): void {
     // Get Set-Cookie header - note: Headers.get() only returns the first value
     // We need to handle multiple Set-Cookie headers
     const setCookieHeader = response.headers.get("set-cookie");
 
-    console.log(`[OdooClient] Set-Cookie header: ${setCookieHeader}`);
-
     if (!setCookieHeader) {
       return;
     }
@@ -80,7 +171,7 @@ export class OdooClient {
 
       if (!name) continue;
 
-      console.log(`[OdooClient] Updating cookie: ${cookiePair}`);
+      console.log(`[OdooClient] Updating cookie: ${name}`);
 
       // Remove old cookie with same name
       this.cookies = this.cookies.filter((c) => !c.startsWith(`${name}=`));
@@ -92,8 +183,68 @@ export class OdooClient {
 
   /**
    * Make a JSON-RPC request to Odoo
+   * Idempotent requests are retried with jittered exponential backoff on network errors,
+   * timeouts and gateway errors. Mutating requests are sent exactly once.
+   * If the session has expired, the request is repeated once after onSessionExpired re-authenticates.
+   */
+  async request<T = unknown>(
+    endpoint: string,
+    params: Record<string, unknown> = {},
+    options: RequestOptions = {},
+  ): Promise<T> {
+    if (this.apiKey && SESSION_ONLY_PREFIXES.some((prefix) => endpoint.startsWith(prefix))) {
+      throw new OdooApiError(`${endpoint} requires a web session and is not available with API key login`);
+    }
+
+    try {
+      return await this.requestWithRetries<T>(endpoint, params, options);
+    } catch (error) {
+      if (!(error instanceof SessionExpiredError) || !this.onSessionExpired) {
+        throw error;
+      }
+
+      // Odoo rejected the call before running it, so it is safe to send again - but only once
+      console.log(`[OdooClient] Session expired on ${endpoint}, re-authenticating`);
+      const session = await this.onSessionExpired();
+      if (!session) {
+        throw error;
+      }
+
+      this.setSession(session.sessionId, session.cookies);
+      return await this.requestWithRetries<T>(endpoint, params, options);
+    }
+  }
+
+  /**
+   * Send a request, retrying idempotent ones with jittered exponential backoff
    */
-  async request<T = unknown>(endpoint: string, params: Record<string, unknown> = {}): Promise<T> {
+  private async requestWithRetries<T>(
+    endpoint: string,
+    params: Record<string, unknown>,
+    options: RequestOptions,
+  ): Promise<T> {
+    const idempotent = options.idempotent ?? IDEMPOTENT_ENDPOINTS.has(endpoint);
+    const maxAttempts = idempotent ? this.maxRetries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.send<T>(endpoint, params, options.timeoutMs ?? this.timeoutMs);
+      } catch (error) {
+        if (attempt >= maxAttempts || !OdooClient.isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(attempt);
+        console.log(`[OdooClient] ${endpoint} failed (attempt ${attempt}/${maxAttempts}), retrying in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Send a single JSON-RPC request, aborting it after timeoutMs
+   */
+  private async send<T>(endpoint: string, params: Record<string, unknown>, timeoutMs: number): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
 
     const requestBody: JsonRpcRequest = {
@@ -110,19 +261,21 @@ export class OdooClient {
     // Add session cookie if available (check cookies array, not just sessionId)
     if (this.sessionId || this.cookies.length > 0) {
       headers["Cookie"] = this.getCookieHeader();
-      console.log(`[OdooClient] Sending cookies: ${headers["Cookie"]}`);
     }
 
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
     try {
-      const response = await fetch(url, {
+      const response = await this.transport.send(url, {
         method: "POST",
         headers,
         body: JSON.stringify(requestBody),
+        signal: controller.signal,
       });
 
       // Update cookies from response
       this.updateCookiesFromResponse(response);
-      console.log(`[OdooClient] Current cookies after response: ${this.cookies.join("; ")}`);
 
       if (!response.ok) {
         // Check for authentication errors
@@ -135,10 +288,15 @@ export class OdooClient {
 
       const jsonResponse = (await response.json()) as JsonRpcResponse<T>;
 
-      console.log(`[OdooClient] Response for ${endpoint}:`, JSON.stringify(jsonResponse).substring(0, 500));
-
       // Check for JSON-RPC errors
       if (jsonResponse.error) {
+        if (
+          jsonResponse.error.code === SESSION_EXPIRED_CODE ||
+          jsonResponse.error.data?.name === SESSION_EXPIRED_EXCEPTION
+        ) {
+          throw new SessionExpiredError();
+        }
+
         const errorMessage = jsonResponse.error.data?.message || jsonResponse.error.message;
         throw new OdooApiError(errorMessage, jsonResponse.error.code, jsonResponse.error.data?.debug);
       }
@@ -153,18 +311,101 @@ export class OdooClient {
 
       return jsonResponse.result as T;
     } catch (error) {
-      // Re-throw our custom errors
-      if (error instanceof OdooApiError || error instanceof SessionExpiredError) {
-        throw error;
-      }
+      throw OdooClient.toRequestError(error, controller.signal.aborted, timeoutMs);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Load or submit an HTML page, for web flows that have no JSON-RPC equivalent (e.g. the TOTP login step).
+   * Redirects are not followed so that the cookies set by the redirect response are captured.
+   */
+  async requestPage(
+    endpoint: string,
+    form?: Record<string, string>,
+  ): Promise<{ status: number; location: string | null; body: string }> {
+    if (this.apiKey) {
+      throw new OdooApiError(`${endpoint} requires a web session and is not available with API key login`);
+    }
+
+    const url = `${this.baseUrl}${endpoint}`;
+    const headers: Record<string, string> = {};
 
-      // Handle network errors
-      if (error instanceof Error) {
-        throw new OdooApiError(`Network error: ${error.message}`);
+    if (this.sessionId || this.cookies.length > 0) {
+      headers["Cookie"] = this.getCookieHeader();
+    }
+    if (form) {
+      headers["Content-Type"] = "application/x-www-form-urlencoded";
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.transport.send(url, {
+        method: form ? "POST" : "GET",
+        headers,
+        body: form ? new URLSearchParams(form).toString() : undefined,
+        signal: controller.signal,
+        redirect: "manual",
+      });
+
+      this.updateCookiesFromResponse(response);
+
+      if (response.status === 401 || response.status === 403) {
+        throw new SessionExpiredError();
+      }
+      if (response.status >= 400) {
+        throw new OdooApiError(`HTTP ${response.status}: ${response.statusText}`, response.status);
       }
 
-      throw new OdooApiError("Unknown error occurred");
+      return { status: response.status, location: response.headers.get("location"), body: await response.text() };
+    } catch (error) {
+      throw OdooClient.toRequestError(error, controller.signal.aborted, this.timeoutMs);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Map a failure while talking to Odoo onto our error types
+   */
+  private static toRequestError(error: unknown, aborted: boolean, timeoutMs: number): Error {
+    // Re-throw our custom errors
+    if (error instanceof OdooApiError || error instanceof SessionExpiredError) {
+      return error;
+    }
+
+    // The abort fired by our timer surfaces as an AbortError from the transport
+    if (aborted) {
+      return new RequestTimeoutError(timeoutMs);
+    }
+
+    // Handle network errors
+    if (error instanceof Error) {
+      return new NetworkError(error.message);
     }
+
+    return new OdooApiError("Unknown error occurred");
+  }
+
+  /**
+   * Exponential backoff with jitter: a random delay between half and all of base * 2^(attempt - 1)
+   */
+  private getRetryDelay(attempt: number): number {
+    const ceiling = Math.min(this.retryDelayMs * 2 ** (attempt - 1), this.maxRetryDelayMs);
+    return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+  }
+
+  /**
+   * Whether a failed request may succeed if sent again
+   */
+  private static isRetryable(error: unknown): boolean {
+    if (error instanceof NetworkError || error instanceof RequestTimeoutError) {
+      return true;
+    }
+    return error instanceof OdooApiError && error.code !== undefined && RETRYABLE_STATUSES.has(error.code);
   }
 
   /**
@@ -182,12 +423,43 @@ export class OdooClient {
       context: kwargs.context || {},
     };
 
-    return this.request<T>("/web/dataset/call_kw", {
-      model,
-      method,
-      args,
-      kwargs: finalKwargs,
-    });
+    if (this.apiKey) {
+      return this.executeKw<T>(this.apiKey, model, method, args, finalKwargs);
+    }
+
+    return this.request<T>(
+      "/web/dataset/call_kw",
+      {
+        model,
+        method,
+        args,
+        kwargs: finalKwargs,
+      },
+      { idempotent: IDEMPOTENT_METHODS.has(method) },
+    );
+  }
+
+  /**
+   * Call a model method through the external /jsonrpc API, authenticating with uid and API key
+   */
+  private async executeKw<T>(
+    credentials: ApiKeyCredentials,
+    model: string,
+    method: string,
+    args: unknown[],
+    kwargs: Record<string, unknown>,
+  ): Promise<T> {
+    const { database, uid, apiKey } = credentials;
+
+    return this.request<T>(
+      "/jsonrpc",
+      {
+        service: "object",
+        method: "execute_kw",
+        args: [database, uid, apiKey, model, method, args, kwargs],
+      },
+      { idempotent: IDEMPOTENT_METHODS.has(method) },
+    );
   }
 
   /**
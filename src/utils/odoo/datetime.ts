@@ -0,0 +1,177 @@
+/**
+ * Conversions between Odoo's naive UTC datetimes, instants and the user's timezone.
+ *
+ * Odoo stores and returns datetimes as "YYYY-MM-DD HH:MM:SS" in UTC without a zone marker.
+ * Parsing those with new Date() reads them as local time, which is wrong by the UTC offset
+ * and breaks across DST changes. Everything that reads or writes Odoo datetimes goes through here.
+ *
+ * Calendar days (timesheet dates, "today", day boundaries) follow the user's timezone from
+ * their Odoo preferences, falling back to the system timezone when it isn't set.
+ */
+
+let userTimeZone: string | null = null;
+
+/**
+ * Set the timezone from the user's Odoo preferences (session info), or null to use the system one
+ */
+export function setUserTimeZone(timeZone: string | null | undefined): void {
+  userTimeZone = timeZone && isValidTimeZone(timeZone) ? timeZone : null;
+}
+
+/**
+ * Get the user's timezone: the Odoo preference when known, otherwise the system timezone
+ */
+export function getUserTimeZone(): string {
+  return userTimeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    console.log(`[Datetime] Unknown timezone ${timeZone}, using the system timezone`);
+    return false;
+  }
+}
+
+/**
+ * Parse an Odoo datetime ("YYYY-MM-DD HH:MM:SS", UTC) into an instant
+ * ISO strings with an explicit zone (e.g. "2024-03-31T01:30:00Z") are accepted as well.
+ */
+export function parseOdooDatetime(value: string): Date {
+  const iso = value.trim().replace(" ", "T");
+  return new Date(/(Z|[+-]\d\d:?\d\d)$/i.test(iso) ? iso : `${iso}Z`);
+}
+
+/**
+ * Format an instant as an Odoo datetime ("YYYY-MM-DD HH:MM:SS", UTC)
+ */
+export function toOdooDatetime(date: Date): string {
+  return date.toISOString().replace("T", " ").substring(0, 19);
+}
+
+/**
+ * Format a calendar date as an Odoo date ("YYYY-MM-DD")
+ * Calendar dates are Date objects at local midnight, as built by new Date(year, month, day).
+ */
+export function toOdooDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse an Odoo date ("YYYY-MM-DD") into a calendar date at local midnight
+ */
+export function parseOdooDate(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Formatters are slow to create, and the same few timezones are used over and over
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = partFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== "literal") {
+      parts[part.type] = parseInt(part.value);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in minutes (e.g. 120 for CEST)
+ */
+export function getTimeZoneOffset(date: Date, timeZone = getUserTimeZone()): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in a timezone to an instant
+ * A time skipped by a DST change resolves to the same distance after the change
+ * (02:30 on a spring-forward night becomes 03:30); a repeated time resolves to its first occurrence.
+ */
+export function fromZonedTime(
+  year: number,
+  month: number, // 1-12
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  timeZone = getUserTimeZone(),
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // The offsets just before and after this wall-clock time differ only around a DST change
+  const before = getTimeZoneOffset(new Date(wallClock - 24 * 3600000), timeZone);
+  const after = getTimeZoneOffset(new Date(wallClock + 24 * 3600000), timeZone);
+
+  // Try the earlier offset first so a repeated hour resolves to its first occurrence
+  for (const offset of before >= after ? [before, after] : [after, before]) {
+    const candidate = new Date(wallClock - offset * 60000);
+    if (getTimeZoneOffset(candidate, timeZone) === offset) {
+      return candidate;
+    }
+  }
+
+  // Skipped time: keep the distance from the change by applying the offset from before it
+  return new Date(wallClock - before * 60000);
+}
+
+/**
+ * The user's calendar date at an instant, as a calendar date at local midnight
+ */
+export function toUserDate(date: Date, timeZone = getUserTimeZone()): Date {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(parts.year, parts.month - 1, parts.day);
+}
+
+/**
+ * Today's date in the user's timezone, as a calendar date at local midnight
+ */
+export function userToday(): Date {
+  return toUserDate(new Date());
+}
+
+/**
+ * The instant a calendar date starts in the user's timezone (usually midnight, but not always on DST days)
+ */
+export function startOfUserDay(date: Date, timeZone = getUserTimeZone()): Date {
+  return fromZonedTime(date.getFullYear(), date.getMonth() + 1, date.getDate(), 0, 0, 0, timeZone);
+}
@@ -0,0 +1,96 @@
+/**
+ * Favorite and recently used project/task pairs for quick starting.
+ * Stored per profile; kept on logout so logging back in restores them.
+ */
+
+import { TaskShortcut, TaskShortcuts } from "./types";
+import { getStorage } from "./storage";
+import { profileKey } from "./profiles";
+
+const SHORTCUTS_KEY = "odoo_task_shortcuts";
+const MAX_RECENT = 10;
+
+function samePair(a: TaskShortcut, projectId: number, taskId: number): boolean {
+  return a.projectId === projectId && a.taskId === taskId;
+}
+
+async function readShortcuts(): Promise<TaskShortcuts> {
+  const raw = await getStorage().getItem(await profileKey(SHORTCUTS_KEY));
+  if (!raw) return { favorites: [], recent: [] };
+
+  try {
+    return JSON.parse(raw) as TaskShortcuts;
+  } catch {
+    console.log(`[Favorites] Failed to parse stored shortcuts`);
+    return { favorites: [], recent: [] };
+  }
+}
+
+async function writeShortcuts(shortcuts: TaskShortcuts): Promise<void> {
+  await getStorage().setItem(await profileKey(SHORTCUTS_KEY), JSON.stringify(shortcuts));
+}
+
+/**
+ * Get pinned pairs and recently used pairs, most recent first
+ * Pinned pairs are left out of the recent list
+ */
+export async function getTaskShortcuts(): Promise<TaskShortcuts> {
+  const { favorites, recent } = await readShortcuts();
+  return {
+    favorites,
+    recent: recent.filter((r) => !favorites.some((f) => samePair(f, r.projectId, r.taskId))),
+  };
+}
+
+/**
+ * Find the stored shortcut for a pair, preferring the pinned one
+ */
+export async function findTaskShortcut(projectId: number, taskId: number): Promise<TaskShortcut | null> {
+  const { favorites, recent } = await readShortcuts();
+  return (
+    favorites.find((f) => samePair(f, projectId, taskId)) ?? recent.find((r) => samePair(r, projectId, taskId)) ?? null
+  );
+}
+
+/**
+ * Move a pair to the front of the recently used list
+ */
+export async function recordRecentTask(shortcut: TaskShortcut): Promise<void> {
+  const shortcuts = await readShortcuts();
+  shortcuts.recent = [
+    shortcut,
+    ...shortcuts.recent.filter((r) => !samePair(r, shortcut.projectId, shortcut.taskId)),
+  ].slice(0, MAX_RECENT);
+  await writeShortcuts(shortcuts);
+}
+
+/**
+ * Pin a pair to the favorites, replacing its stored description if already pinned
+ */
+export async function pinTask(shortcut: TaskShortcut): Promise<void> {
+  const shortcuts = await readShortcuts();
+  const index = shortcuts.favorites.findIndex((f) => samePair(f, shortcut.projectId, shortcut.taskId));
+  if (index >= 0) {
+    shortcuts.favorites[index] = shortcut;
+  } else {
+    shortcuts.favorites.push(shortcut);
+  }
+  await writeShortcuts(shortcuts);
+}
+
+/**
+ * Remove a pair from the favorites
+ */
+export async function unpinTask(projectId: number, taskId: number): Promise<void> {
+  const shortcuts = await readShortcuts();
+  shortcuts.favorites = shortcuts.favorites.filter((f) => !samePair(f, projectId, taskId));
+  await writeShortcuts(shortcuts);
+}
+
+/**
+ * Check whether a pair is pinned
+ */
+export async function isTaskPinned(projectId: number, taskId: number): Promise<boolean> {
+  const { favorites } = await readShortcuts();
+  return favorites.some((f) => samePair(f, projectId, taskId));
+}
@@ -2,6 +2,9 @@
  * Formatting utilities for dates, times, and durations
  */
 
+import { getUserTimeZone, parseOdooDate, parseOdooDatetime, userToday } from "./datetime";
+import { DateRange } from "./types";
+
 /**
  * Format a duration in seconds to human-readable format (e.g., "2h 30min 15sec")
  */
@@ -51,46 +54,115 @@ export function formatHours(hours: number): string {
   return parts.join(" ");
 }
 
+/**
+ * Format a surplus or deficit of hours with its sign (e.g., 1.5 -> "+1h 30min", -0.75 -> "−45min")
+ */
+export function formatSignedHours(hours: number): string {
+  if (Math.round(hours * 60) === 0) {
+    return formatHours(0);
+  }
+  return `${hours > 0 ? "+" : "−"}${formatHours(Math.abs(hours))}`;
+}
+
+/**
+ * Format hours against a target (e.g., "6h 30min / 8h (81%)"); without a target only the hours are shown
+ */
+export function formatProgress(hours: number, target: number): string {
+  if (target <= 0) {
+    return formatHours(hours);
+  }
+  return `${formatHours(hours)} / ${formatHours(target)} (${Math.round((hours / target) * 100)}%)`;
+}
+
+/**
+ * Parse a duration typed by the user into decimal hours
+ * Accepts "1:30", "1.5", "1,5", "2h", "90m", "90min" and "1h 30m". Returns null if unparseable.
+ */
+export function parseDuration(input: string): number | null {
+  const value = input.trim().toLowerCase();
+  if (!value) {
+    return null;
+  }
+
+  // "1:30" - hours and minutes
+  const clock = value.match(/^(\d+):([0-5]\d)$/);
+  if (clock) {
+    return parseInt(clock[1]) + parseInt(clock[2]) / 60;
+  }
+
+  // "1.5" or "1,5" - decimal hours
+  if (/^\d+([.,]\d+)?$/.test(value)) {
+    return parseFloat(value.replace(",", "."));
+  }
+
+  // "2h", "90m", "1h 30m", "1.5h"
+  const units = value.match(/^(?:(\d+(?:[.,]\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:utes?)?)?)?$/);
+  if (units && (units[1] || units[2])) {
+    const hours = units[1] ? parseFloat(units[1].replace(",", ".")) : 0;
+    const minutes = units[2] ? parseInt(units[2]) : 0;
+    return hours + minutes / 60;
+  }
+
+  return null;
+}
+
+/**
+ * Format decimal hours as "h:mm" to pre-fill a duration field (e.g., 1.5 -> "1:30")
+ * The inverse of parseDuration, so the value comes back unchanged when the form is saved as is.
+ */
+export function formatDurationInput(hours: number): string {
+  const totalMinutes = Math.round(hours * 60);
+  return `${Math.floor(totalMinutes / 60)}:${String(totalMinutes % 60).padStart(2, "0")}`;
+}
+
 /**
  * Calculate elapsed time from start time to server time in seconds
- * Both timestamps are in Odoo format "YYYY-MM-DD HH:MM:SS"
+ * Timestamps are Odoo datetimes ("YYYY-MM-DD HH:MM:SS", UTC) or ISO strings
  */
 export function getElapsedSeconds(startTime: string, serverTime: string): number {
-  // Both timestamps are from Odoo in "YYYY-MM-DD HH:MM:SS" format
-  // Convert to Date objects for comparison
-  const start = new Date(startTime.replace(" ", "T"));
-  const now = new Date(serverTime.replace(" ", "T"));
+  const start = parseOdooDatetime(startTime);
+  const now = parseOdooDatetime(serverTime);
   const elapsed = Math.floor((now.getTime() - start.getTime()) / 1000);
   console.log("[Format] Calculating elapsed - Start:", startTime, "Server:", serverTime, "Elapsed:", elapsed);
   return elapsed;
 }
 
 /**
- * Format an ISO datetime string to local time (e.g., "2:30 PM")
+ * Format elapsed seconds as hours and minutes on a clock (e.g., 3900 -> "1:05")
+ */
+export function formatElapsedClock(seconds: number): string {
+  const totalMinutes = Math.max(0, Math.floor(seconds / 60));
+  const minutes = String(totalMinutes % 60).padStart(2, "0");
+  return `${Math.floor(totalMinutes / 60)}:${minutes}`;
+}
+
+/**
+ * Format an ISO or Odoo datetime string to the user's local time (e.g., "2:30 PM")
  */
 export function formatTime(isoString: string): string {
-  const date = new Date(isoString);
-  return date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  const date = parseOdooDatetime(isoString);
+  return date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit", timeZone: getUserTimeZone() });
 }
 
 /**
- * Format an ISO datetime string to local date and time (e.g., "Jan 26, 2:30 PM")
+ * Format an ISO or Odoo datetime string to the user's local date and time (e.g., "Jan 26, 2:30 PM")
  */
 export function formatDateTime(isoString: string): string {
-  const date = new Date(isoString);
+  const date = parseOdooDatetime(isoString);
   return date.toLocaleString([], {
     month: "short",
     day: "numeric",
     hour: "numeric",
     minute: "2-digit",
+    timeZone: getUserTimeZone(),
   });
 }
 
 /**
- * Format an ISO datetime string to relative time (e.g., "2 hours ago")
+ * Format an ISO or Odoo datetime string to relative time (e.g., "2 hours ago")
  */
 export function formatRelativeTime(isoString: string): string {
-  const date = new Date(isoString);
+  const date = parseOdooDatetime(isoString);
   const now = new Date();
   const diffMs = now.getTime() - date.getTime();
   const diffSeconds = Math.floor(diffMs / 1000);
@@ -109,6 +181,62 @@ export function formatRelativeTime(isoString: string): string {
   }
 }
 
+/**
+ * Add calendar days to a local date (time of day is dropped)
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Monday of the week containing a local date (this week in the user's timezone by default)
+ */
+export function startOfWeek(date = userToday()): Date {
+  const day = date.getDay();
+  return addDays(date, day === 0 ? -6 : 1 - day);
+}
+
+export type DateRangeOption = "this_week" | "last_week" | "this_month" | "last_month" | "last_30_days";
+
+export const DATE_RANGE_TITLES: Record<DateRangeOption, string> = {
+  this_week: "This Week",
+  last_week: "Last Week",
+  this_month: "This Month",
+  last_month: "Last Month",
+  last_30_days: "Last 30 Days",
+};
+
+/**
+ * The dates a range option covers, up to today for the current week and month
+ */
+export function getDateRange(option: DateRangeOption): DateRange {
+  const today = userToday();
+  switch (option) {
+    case "this_week":
+      return { from: startOfWeek(today), to: today };
+    case "last_week": {
+      const from = addDays(startOfWeek(today), -7);
+      return { from, to: addDays(from, 6) };
+    }
+    case "this_month":
+      return { from: new Date(today.getFullYear(), today.getMonth(), 1), to: today };
+    case "last_month":
+      return {
+        from: new Date(today.getFullYear(), today.getMonth() - 1, 1),
+        to: new Date(today.getFullYear(), today.getMonth(), 0),
+      };
+    case "last_30_days":
+      return { from: addDays(today, -29), to: today };
+  }
+}
+
+/**
+ * Format an Odoo date as a section or dropdown title (e.g., "Monday, Oct 19")
+ */
+export function formatDayTitle(date: string): string {
+  return parseOdooDate(date).toLocaleDateString([], { weekday: "long", month: "short", day: "numeric" });
+}
+
 /**
  * Truncate a string to a maximum length with ellipsis
  */
@@ -12,17 +12,123 @@
  */
 
 // Storage setup (must be called before using any other export)
-export { initStorage } from "./storage";
+export { initStorage, initCredentialStorage } from "./storage";
 export type { StorageProvider } from "./storage";
 
+// Transport setup (optional, defaults to node-fetch)
+export { initTransport, fetchTransport } from "./transport";
+export type { OdooTransport, TransportRequest, TransportResponse } from "./transport";
+
 // Client
 export { OdooClient } from "./client";
+export type { OdooClientOptions, RequestOptions, ReauthHandler } from "./client";
+
+// Typed models over callKw
+export {
+  AnalyticLineModel,
+  ProjectModel,
+  TaskModel,
+  EmployeeModel,
+  AttendanceModel,
+  OvertimeModel,
+  ResourceCalendarModel,
+  CalendarAttendanceModel,
+  search,
+  searchRead,
+  read,
+  readGroup,
+  create,
+  write,
+  unlink,
+  nameSearch,
+  callMethod,
+  eq,
+  ne,
+  gt,
+  gte,
+  lt,
+  lte,
+  isIn,
+  notIn,
+  like,
+  ilike,
+  childOf,
+} from "./orm";
+export type {
+  Model,
+  Many2one,
+  AnalyticLineFields,
+  ProjectFields,
+  TaskFields,
+  EmployeeFields,
+  AttendanceFields,
+  OvertimeFields,
+  ResourceCalendarFields,
+  CalendarAttendanceFields,
+  Values,
+  FieldPath,
+  Operator,
+  Condition,
+  Domain,
+  SearchOptions,
+  RecordOf,
+  GroupInfo,
+} from "./orm";
 
 // Auth
-export { login, logout, getStoredSession, getAuthenticatedClient, hasActiveSession } from "./auth";
+export {
+  login,
+  loginWithApiKey,
+  completeTotpLogin,
+  lookupDatabases,
+  validateSession,
+  logout,
+  getStoredSession,
+  getAuthenticatedClient,
+  hasActiveSession,
+} from "./auth";
+
+// Profiles
+export { getProfiles, getActiveProfile, setActiveProfile, removeProfile, defaultProfileName } from "./profiles";
+
+// Server
+export { getServerVersion } from "./version";
 
 // Attendance
-export { getAttendanceStatus, toggleCheckInOut, isCheckedIn, getHoursToday } from "./attendance";
+export {
+  getAttendanceStatus,
+  toggleCheckInOut,
+  checkIn,
+  checkOut,
+  getAttendanceHistory,
+  groupAttendanceByDay,
+  getOvertimeRecords,
+  getOvertimeBalance,
+  isCheckedIn,
+  getHoursToday,
+} from "./attendance";
+
+// Attendance and timer coupling
+export { getAttendanceTimerPolicy, saveAttendanceTimerPolicy } from "./policy";
+
+// Hour targets
+export {
+  getHourTargetSettings,
+  saveHourTargetSettings,
+  getWorkingSchedule,
+  getHourTargets,
+  getHourProgress,
+} from "./targets";
+
+// Offline queue, replayed once Odoo is reachable again
+export {
+  isOfflineError,
+  getPendingActions,
+  queuePendingAction,
+  discardPendingAction,
+  getOfflineTimer,
+  syncPendingActions,
+} from "./offline";
 
 // Timesheet
 export {
@@ -31,41 +137,125 @@ export {
   startTimerWithDetails,
   assignTimerDetails,
   stopTimer,
+  backdateTimer,
+  getTimesheetRoundingRules,
+  roundTimesheetMinutes,
+  switchTimer,
+  pauseTimer,
+  resumeTimer,
   cancelTimer,
+  createTimesheetEntry,
+  getTimesheetEntries,
+  updateTimesheetEntry,
+  getTimesheetEntryChanges,
+  deleteTimesheetEntry,
+  getTimesheetGrid,
+  setTimesheetGridCell,
+  getRecentTimesheetEntries,
+  resumeTimesheetEntry,
   getProjects,
   getTasks,
   createTask,
   getServerTime,
   getRunningTimer,
+  fetchRunningTimer,
   getTimerState,
   hasActiveTimer,
 } from "./timesheet";
 
+// Favorites and recently used tasks
+export { getTaskShortcuts, findTaskShortcut, recordRecentTask, pinTask, unpinTask, isTaskPinned } from "./favorites";
+
 // Types
 export type {
   SessionInfo,
+  PasswordSessionInfo,
+  ApiKeySessionInfo,
+  ApiKeyCredentials,
+  AuthMethod,
+  TotpChallenge,
+  LoginOptions,
+  DatabaseLookup,
   LoginResponse,
   AttendanceState,
+  AttendanceRecord,
+  AttendanceDay,
+  AttendanceChangeResult,
+  OvertimeRecord,
+  OvertimeBalance,
   AttendanceResponse,
   Project,
   Task,
   TimerState,
+  TimerStopResult,
+  TimesheetRoundingRules,
+  DateRange,
+  TimesheetEntry,
+  TimesheetEntryChanges,
+  TimesheetGrid,
+  TimesheetGridRow,
+  TaskShortcut,
+  TaskShortcuts,
+  CouplingMode,
+  AttendanceTimerPolicy,
+  HourTargetSettings,
+  WorkingSchedule,
+  HourTargets,
+  HourProgress,
   TimerStartResponse,
   ServerTimeResponse,
   JsonRpcRequest,
   JsonRpcResponse,
   CachedData,
+  ServerVersion,
+  PendingActionInput,
+  PendingAction,
+  SyncResult,
+} from "./types";
+export {
+  OdooApiError,
+  NetworkError,
+  RequestTimeoutError,
+  SessionExpiredError,
+  TwoFactorRequiredError,
+  AttendanceMismatchError,
+  SyncConflictError,
 } from "./types";
-export { OdooApiError, SessionExpiredError } from "./types";
 
 // Formatting utilities
 export {
   formatDuration,
   formatHours,
+  parseDuration,
+  formatDurationInput,
   getElapsedSeconds,
   formatTime,
   formatDateTime,
   formatRelativeTime,
   truncate,
   formatMenuBarTitle,
+  formatElapsedClock,
+  formatProgress,
+  formatSignedHours,
+  addDays,
+  startOfWeek,
+  getDateRange,
+  formatDayTitle,
+  DATE_RANGE_TITLES,
 } from "./format";
+export type { DateRangeOption } from "./format";
+
+// Odoo datetimes and the user's timezone
+export {
+  parseOdooDatetime,
+  toOdooDatetime,
+  toOdooDate,
+  parseOdooDate,
+  getUserTimeZone,
+  setUserTimeZone,
+  getTimeZoneOffset,
+  fromZonedTime,
+  toUserDate,
+  userToday,
+  startOfUserDay,
+} from "./datetime";
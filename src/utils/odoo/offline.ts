@@ -0,0 +1,218 @@
+/**
+ * Offline queue for actions made while Odoo is unreachable
+ * Actions are kept with the time they really happened and replayed in order once Odoo answers again.
+ */
+
+import {
+  PendingAction,
+  PendingActionInput,
+  SyncResult,
+  NetworkError,
+  RequestTimeoutError,
+  SessionExpiredError,
+  SyncConflictError,
+} from "./types";
+import { getStorage } from "./storage";
+import { profileKey } from "./profiles";
+import { checkIn, checkOut } from "./attendance";
+import {
+  fetchRunningTimer,
+  startTimerWithDetails,
+  backdateTimer,
+  updateTimer,
+  stopTimer,
+  createTimesheetEntry,
+} from "./timesheet";
+import { parseOdooDate, toUserDate } from "./datetime";
+
+// Kept per profile and not cleared on logout, so nothing waiting is lost
+const PENDING_ACTIONS_KEY = "odoo_pending_actions";
+
+// One sync at a time, so an action is never replayed twice
+let runningSync: Promise<SyncResult> | null = null;
+
+/**
+ * Whether an error means Odoo could not be reached, so the action can be queued
+ */
+export function isOfflineError(error: unknown): boolean {
+  return error instanceof NetworkError || error instanceof RequestTimeoutError;
+}
+
+/**
+ * Get the actions waiting to be synced, oldest first
+ */
+export async function getPendingActions(): Promise<PendingAction[]> {
+  const stored = await getStorage().getItem(await profileKey(PENDING_ACTIONS_KEY));
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(stored) as PendingAction[];
+  } catch {
+    return [];
+  }
+}
+
+async function savePendingActions(actions: PendingAction[]): Promise<void> {
+  const key = await profileKey(PENDING_ACTIONS_KEY);
+  if (actions.length === 0) {
+    await getStorage().removeItem(key);
+  } else {
+    await getStorage().setItem(key, JSON.stringify(actions));
+  }
+}
+
+/**
+ * Record an action to replay once Odoo is reachable
+ */
+export async function queuePendingAction(input: PendingActionInput, at = new Date()): Promise<PendingAction> {
+  const action: PendingAction = {
+    ...input,
+    id: `${at.getTime()}-${Math.random().toString(36).substring(2, 8)}`,
+    at: at.toISOString(),
+    conflict: null,
+  };
+
+  await savePendingActions([...(await getPendingActions()), action]);
+  console.log("[Offline] Queued", action.type, "at", action.at);
+  return action;
+}
+
+/**
+ * Drop a waiting action without replaying it
+ */
+export async function discardPendingAction(id: string): Promise<void> {
+  await savePendingActions((await getPendingActions()).filter((action) => action.id !== id));
+}
+
+/**
+ * The timer started offline and not stopped since, if any
+ */
+export function getOfflineTimer(actions: PendingAction[]): Extract<PendingAction, { type: "start_timer" }> | null {
+  let timer: Extract<PendingAction, { type: "start_timer" }> | null = null;
+  for (const action of actions) {
+    if (action.type === "start_timer") {
+      timer = action;
+    } else if (action.type === "stop_timer") {
+      timer = null;
+    }
+  }
+  return timer;
+}
+
+/**
+ * Replay one action with its original time; returns how many queued actions it used up
+ * Throws SyncConflictError when Odoo changed in the meantime (e.g. a timer was started from the web).
+ */
+async function replayAction(action: PendingAction, next: PendingAction | undefined): Promise<number> {
+  const at = new Date(action.at);
+
+  switch (action.type) {
+    case "start_timer": {
+      // Started and stopped offline: log the time in between as a finished line
+      if (next?.type === "stop_timer" && next.timerId === null) {
+        const hours = (new Date(next.at).getTime() - at.getTime()) / 3600000;
+        const description = next.description || action.description || "/";
+        if (hours > 0) {
+          await createTimesheetEntry(action.projectId, action.taskId, toUserDate(at), hours, description);
+        }
+        return 2;
+      }
+
+      const running = await fetchRunningTimer();
+      if (running?.timerId) {
+        throw new SyncConflictError(`A timer is already running on ${running.taskName || "another task"} in Odoo`);
+      }
+
+      const { timerId } = await startTimerWithDetails(action.projectId, action.taskId, action.description ?? undefined);
+      await backdateTimer(timerId, at);
+      return 1;
+    }
+
+    case "stop_timer": {
+      const running = await fetchRunningTimer();
+      if (!running?.timerId) {
+        throw new SyncConflictError("No timer is running in Odoo anymore");
+      }
+      if (action.timerId !== null && running.timerId !== action.timerId) {
+        throw new SyncConflictError(`Another timer is running in Odoo (${running.taskName || "unknown task"})`);
+      }
+
+      if (action.description && action.description !== running.description) {
+        await updateTimer(running.timerId, undefined, undefined, action.description);
+      }
+      await stopTimer(running.timerId, at);
+      return 1;
+    }
+
+    case "log_time":
+      await createTimesheetEntry(
+        action.projectId,
+        action.taskId,
+        parseOdooDate(action.date),
+        action.hours,
+        action.description,
+      );
+      return 1;
+
+    case "check_in":
+    case "check_out": {
+      const result = action.type === "check_in" ? await checkIn(at) : await checkOut(at);
+      if (!result.changed) {
+        throw new SyncConflictError(
+          action.type === "check_in" ? "Already checked in in Odoo" : "Already checked out in Odoo",
+        );
+      }
+      return 1;
+    }
+  }
+}
+
+async function runSync(): Promise<SyncResult> {
+  let synced = 0;
+
+  for (;;) {
+    // Read the queue again each time, actions may be added or discarded while syncing
+    const actions = await getPendingActions();
+    if (actions.length === 0) {
+      return { synced, remaining: 0, conflict: null, offline: false };
+    }
+
+    const [action, next] = actions;
+    try {
+      const used = await replayAction(action, next);
+      const done = new Set(actions.slice(0, used).map((a) => a.id));
+      await savePendingActions((await getPendingActions()).filter((a) => !done.has(a.id)));
+      synced += used;
+      console.log("[Offline] Synced", action.type, "from", action.at);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        throw error;
+      }
+      if (isOfflineError(error)) {
+        console.log("[Offline] Odoo is still unreachable");
+        return { synced, remaining: actions.length, conflict: null, offline: true };
+      }
+
+      // Anything else needs the user: keep the action and everything after it
+      const conflict = { ...action, conflict: error instanceof Error ? error.message : "Unknown error" };
+      console.log("[Offline] Could not sync", action.type, "-", conflict.conflict);
+      await savePendingActions((await getPendingActions()).map((a) => (a.id === action.id ? conflict : a)));
+      return { synced, remaining: actions.length, conflict, offline: false };
+    }
+  }
+}
+
+/**
+ * Replay the waiting actions in order
+ * Stops at the first one that conflicts with Odoo's current state, or when Odoo is still unreachable.
+ */
+export async function syncPendingActions(): Promise<SyncResult> {
+  if (!runningSync) {
+    runningSync = runSync().finally(() => {
+      runningSync = null;
+    });
+  }
+  return runningSync;
+}
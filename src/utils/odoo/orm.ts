@@ -0,0 +1,284 @@
+/**
+ * Typed helpers over callKw for the Odoo models this package uses
+ * Each model lists its fields as read returns them, so reads come back typed
+ * and domains only accept fields the model has.
+ */
+
+import { OdooClient } from "./client";
+
+// Relational fields read as [id, display name], or false when empty
+export type Many2one = [number, string] | false;
+
+/**
+ * A model and the record type read returns for it
+ */
+export interface Model<F extends { id: number }> {
+  name: string;
+  readonly fields?: F; // Type only, never set
+}
+
+function defineModel<F extends { id: number }>(name: string): Model<F> {
+  return { name };
+}
+
+// Model fields
+
+export interface AnalyticLineFields {
+  id: number;
+  name: string | false;
+  date: string; // Odoo date "YYYY-MM-DD"
+  unit_amount: number; // Hours
+  project_id: Many2one;
+  task_id: Many2one;
+  employee_id: Many2one;
+  user_id: Many2one;
+  timer_start: string | false; // Odoo datetime; timer.mixin
+  timer_pause: string | false;
+  validated: boolean; // timesheet_grid (Enterprise)
+  timesheet_invoice_id: Many2one; // sale_timesheet
+}
+
+export interface ProjectFields {
+  id: number;
+  name: string;
+}
+
+export interface TaskFields {
+  id: number;
+  name: string;
+  project_id: Many2one;
+}
+
+export interface EmployeeFields {
+  id: number;
+  name: string;
+  user_id: Many2one;
+  attendance_state: "checked_in" | "checked_out";
+  last_check_in: string | false;
+  last_check_out: string | false;
+  hours_today: number;
+  total_overtime: number;
+  resource_calendar_id: Many2one;
+}
+
+export interface AttendanceFields {
+  id: number;
+  employee_id: Many2one;
+  check_in: string; // Odoo datetime
+  check_out: string | false;
+  worked_hours: number;
+}
+
+export interface OvertimeFields {
+  id: number;
+  employee_id: Many2one;
+  date: string;
+  duration: number; // Hours
+  adjustment: boolean; // Manual correction by HR
+}
+
+export interface ResourceCalendarFields {
+  id: number;
+  name: string;
+  two_weeks_calendar: boolean;
+  hours_per_day: number;
+}
+
+export interface CalendarAttendanceFields {
+  id: number;
+  calendar_id: Many2one;
+  dayofweek: string; // "0" is Monday
+  hour_from: number;
+  hour_to: number;
+  day_period: string; // "morning", "afternoon", or "lunch" from 17.0
+  week_type: string | false; // "0" or "1" on two-week calendars
+}
+
+export const AnalyticLineModel = defineModel<AnalyticLineFields>("account.analytic.line");
+export const ProjectModel = defineModel<ProjectFields>("project.project");
+export const TaskModel = defineModel<TaskFields>("project.task");
+export const EmployeeModel = defineModel<EmployeeFields>("hr.employee");
+export const AttendanceModel = defineModel<AttendanceFields>("hr.attendance");
+export const OvertimeModel = defineModel<OvertimeFields>("hr.attendance.overtime");
+export const ResourceCalendarModel = defineModel<ResourceCalendarFields>("resource.calendar");
+export const CalendarAttendanceModel = defineModel<CalendarAttendanceFields>("resource.calendar.attendance");
+
+// Values for create and write: relational fields take an id
+export type Values<F> = {
+  [K in Exclude<keyof F, "id">]?: [F[K]] extends [Many2one] ? number | false : F[K];
+};
+
+// Domains
+
+type Many2oneField<F> = { [K in keyof F]: [F[K]] extends [Many2one] ? K : never }[keyof F] & string;
+
+// A field, or a path through a relational field such as "employee_id.user_id"
+export type FieldPath<F> = (keyof F & string) | `${Many2oneField<F>}.${string}`;
+
+export type Operator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "in" | "not in" | "like" | "ilike" | "child_of";
+
+export type Condition<F> = [FieldPath<F>, Operator, unknown];
+
+export type Domain<F> = Array<Condition<F> | "&" | "|" | "!">;
+
+export function eq<F>(field: FieldPath<F>, value: unknown): Condition<F> {
+  return [field, "=", value];
+}
+
+export function ne<F>(field: FieldPath<F>, value: unknown): Condition<F> {
+  return [field, "!=", value];
+}
+
+export function gt<F>(field: FieldPath<F>, value: unknown): Condition<F> {
+  return [field, ">", value];
+}
+
+export function gte<F>(field: FieldPath<F>, value: unknown): Condition<F> {
+  return [field, ">=", value];
+}
+
+export function lt<F>(field: FieldPath<F>, value: unknown): Condition<F> {
+  return [field, "<", value];
+}
+
+export function lte<F>(field: FieldPath<F>, value: unknown): Condition<F> {
+  return [field, "<=", value];
+}
+
+export function isIn<F>(field: FieldPath<F>, values: unknown[]): Condition<F> {
+  return [field, "in", values];
+}
+
+export function notIn<F>(field: FieldPath<F>, values: unknown[]): Condition<F> {
+  return [field, "not in", values];
+}
+
+// Odoo wraps the pattern in % itself; use _ and % inside it as SQL wildcards
+export function like<F>(field: FieldPath<F>, pattern: string): Condition<F> {
+  return [field, "like", pattern];
+}
+
+export function ilike<F>(field: FieldPath<F>, pattern: string): Condition<F> {
+  return [field, "ilike", pattern];
+}
+
+// The record and everything below it, for hierarchical models such as sub-tasks
+export function childOf<F>(field: FieldPath<F>, ids: number | number[]): Condition<F> {
+  return [field, "child_of", ids];
+}
+
+// Methods
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+  order?: string;
+}
+
+type FieldName<F> = Exclude<keyof F, "id"> & string;
+
+// read and search_read always include the id
+export type RecordOf<F, K extends keyof F> = Pick<F, K | ("id" & keyof F)>;
+
+export async function search<F extends { id: number }>(
+  client: OdooClient,
+  model: Model<F>,
+  domain: Domain<F>,
+  options: SearchOptions = {},
+): Promise<number[]> {
+  return client.callKw<number[]>(model.name, "search", [domain], { ...options });
+}
+
+export async function searchRead<F extends { id: number }, K extends FieldName<F>>(
+  client: OdooClient,
+  model: Model<F>,
+  domain: Domain<F>,
+  fields: K[],
+  options: SearchOptions = {},
+): Promise<RecordOf<F, K>[]> {
+  return client.callKw<RecordOf<F, K>[]>(model.name, "search_read", [domain], { fields, ...options });
+}
+
+export async function read<F extends { id: number }, K extends FieldName<F>>(
+  client: OdooClient,
+  model: Model<F>,
+  ids: number[],
+  fields: K[],
+): Promise<RecordOf<F, K>[]> {
+  return client.callKw<RecordOf<F, K>[]>(model.name, "read", [ids, fields]);
+}
+
+// "unit_amount:sum" aggregates unit_amount; "date:day" groups by day under its own key
+type GroupSpec<F> = FieldName<F> | `${FieldName<F>}:${string}`;
+type SpecField<S> = S extends `${infer K}:${string}` ? K : S;
+
+export interface GroupInfo {
+  __count?: number;
+  __range?: Record<string, { from: string; to: string }>; // Bounds of date groups, from 16.0
+  __domain?: unknown[];
+}
+
+export async function readGroup<F extends { id: number }, A extends GroupSpec<F>, G extends GroupSpec<F>>(
+  client: OdooClient,
+  model: Model<F>,
+  domain: Domain<F>,
+  aggregates: A[],
+  groupBy: G[],
+  options: { lazy?: boolean; orderby?: string } = {},
+): Promise<Array<Pick<F, (SpecField<A> | Exclude<G, `${string}:${string}`>) & keyof F> & GroupInfo>> {
+  return client.callKw(model.name, "read_group", [domain, aggregates, groupBy], { ...options });
+}
+
+export async function create<F extends { id: number }>(
+  client: OdooClient,
+  model: Model<F>,
+  values: Values<F>,
+): Promise<number> {
+  return client.callKw<number>(model.name, "create", [values]);
+}
+
+export async function write<F extends { id: number }>(
+  client: OdooClient,
+  model: Model<F>,
+  ids: number[],
+  values: Values<F>,
+): Promise<boolean> {
+  return client.callKw<boolean>(model.name, "write", [ids, values]);
+}
+
+export async function unlink<F extends { id: number }>(
+  client: OdooClient,
+  model: Model<F>,
+  ids: number[],
+): Promise<boolean> {
+  return client.callKw<boolean>(model.name, "unlink", [ids]);
+}
+
+/**
+ * Records whose display name matches, as [id, name] pairs
+ */
+export async function nameSearch<F extends { id: number }>(
+  client: OdooClient,
+  model: Model<F>,
+  name: string,
+  options: { domain?: Domain<F>; limit?: number } = {},
+): Promise<[number, string][]> {
+  // name_search takes the search term positionally and the domain as "args"
+  return client.callKw<[number, string][]>(model.name, "name_search", [name], {
+    ...(options.domain ? { args: options.domain } : {}),
+    ...(options.limit !== undefined ? { limit: options.limit } : {}),
+  });
+}
+
+/**
+ * Call any other model method, such as the timer actions
+ */
+export async function callMethod<T = unknown, F extends { id: number } = { id: number }>(
+  client: OdooClient,
+  model: Model<F>,
+  method: string,
+  args: unknown[] = [],
+  kwargs: Record<string, unknown> = {},
+): Promise<T> {
+  return client.callKw<T>(model.name, method, args, kwargs);
+}
@@ -0,0 +1,35 @@
+/**
+ * Per-user policy linking attendance and timers: check in when a timer starts,
+ * stop the timer when checking out. Both are off until the user opts in.
+ * Stored per profile and kept on logout, like favorites.
+ */
+
+import { AttendanceTimerPolicy } from "./types";
+import { getStorage } from "./storage";
+import { profileKey } from "./profiles";
+
+const POLICY_KEY = "odoo_attendance_timer_policy";
+
+const DEFAULT_POLICY: AttendanceTimerPolicy = { checkInOnTimerStart: "off", stopTimerOnCheckOut: "off" };
+
+/**
+ * Get the stored policy, or the default with both couplings off
+ */
+export async function getAttendanceTimerPolicy(): Promise<AttendanceTimerPolicy> {
+  const raw = await getStorage().getItem(await profileKey(POLICY_KEY));
+  if (!raw) return DEFAULT_POLICY;
+
+  try {
+    return { ...DEFAULT_POLICY, ...(JSON.parse(raw) as Partial<AttendanceTimerPolicy>) };
+  } catch {
+    console.log(`[Policy] Failed to parse stored policy`);
+    return DEFAULT_POLICY;
+  }
+}
+
+/**
+ * Save the policy for the active profile
+ */
+export async function saveAttendanceTimerPolicy(policy: AttendanceTimerPolicy): Promise<void> {
+  await getStorage().setItem(await profileKey(POLICY_KEY), JSON.stringify(policy));
+}
@@ -0,0 +1,124 @@
+/**
+ * Named profiles so several Odoo accounts can be used side by side.
+ * Each profile keeps its own session and caches under namespaced storage keys.
+ */
+
+import { getStorage } from "./storage";
+
+const PROFILES_KEY = "odoo_profiles";
+
+// Keys written before profiles existed, migrated into the "default" profile
+const LEGACY_SESSION_KEY = "odoo_session";
+const LEGACY_CACHE_KEYS = ["odoo_user_info", "odoo_attendance_cache", "odoo_timer_cache"];
+const LEGACY_PROFILE = "default";
+
+interface ProfileIndex {
+  active: string | null;
+  names: string[];
+}
+
+async function writeIndex(index: ProfileIndex): Promise<void> {
+  await getStorage().setItem(PROFILES_KEY, JSON.stringify(index));
+}
+
+async function readIndex(): Promise<ProfileIndex> {
+  const storage = getStorage();
+  const raw = await storage.getItem(PROFILES_KEY);
+
+  if (raw) {
+    try {
+      return JSON.parse(raw) as ProfileIndex;
+    } catch {
+      console.log(`[Profiles] Failed to parse profile index`);
+    }
+  }
+
+  // Move a session saved by an older version into the default profile
+  const legacySession = await storage.getItem(LEGACY_SESSION_KEY);
+  if (legacySession) {
+    console.log(`[Profiles] Migrating legacy session into "${LEGACY_PROFILE}" profile`);
+    await storage.setItem(namespacedKey(LEGACY_SESSION_KEY, LEGACY_PROFILE), legacySession);
+    await storage.removeItem(LEGACY_SESSION_KEY);
+    for (const key of LEGACY_CACHE_KEYS) {
+      await storage.removeItem(key);
+    }
+
+    const index: ProfileIndex = { active: LEGACY_PROFILE, names: [LEGACY_PROFILE] };
+    await writeIndex(index);
+    return index;
+  }
+
+  return { active: null, names: [] };
+}
+
+/**
+ * Storage key for data that belongs to a single profile
+ */
+export function namespacedKey(key: string, profile: string): string {
+  return `${key}:${profile}`;
+}
+
+/**
+ * Storage key for data that belongs to the active profile
+ */
+export async function profileKey(key: string): Promise<string> {
+  const active = await getActiveProfile();
+  return active ? namespacedKey(key, active) : key;
+}
+
+/**
+ * Get the names of all saved profiles
+ */
+export async function getProfiles(): Promise<string[]> {
+  const index = await readIndex();
+  return index.names;
+}
+
+/**
+ * Get the name of the profile every API call acts on
+ */
+export async function getActiveProfile(): Promise<string | null> {
+  const index = await readIndex();
+  return index.active;
+}
+
+/**
+ * Switch the profile every API call acts on
+ */
+export async function setActiveProfile(name: string): Promise<void> {
+  const index = await readIndex();
+  if (!index.names.includes(name)) {
+    throw new Error(`Unknown profile "${name}"`);
+  }
+  await writeIndex({ ...index, active: name });
+}
+
+/**
+ * Register a profile (if new) and make it active
+ */
+export async function addProfile(name: string): Promise<void> {
+  const index = await readIndex();
+  const names = index.names.includes(name) ? index.names : [...index.names, name];
+  await writeIndex({ active: name, names });
+}
+
+/**
+ * Forget a profile. If it was active, the first remaining profile becomes active.
+ */
+export async function removeProfile(name: string): Promise<void> {
+  const index = await readIndex();
+  const names = index.names.filter((n) => n !== name);
+  const active = index.active === name ? (names[0] ?? null) : index.active;
+  await writeIndex({ active, names });
+}
+
+/**
+ * Default profile name for a login, e.g. "jane@acme.odoo.com"
+ */
+export function defaultProfileName(baseUrl: string, username: string): string {
+  try {
+    return `${username}@${new URL(baseUrl).hostname}`;
+  } catch {
+    return username;
+  }
+}
@@ -28,3 +28,21 @@ export function getStorage(): StorageProvider {
   }
   return _storage;
 }
+
+let _credentialStorage: StorageProvider | null = null;
+
+/**
+ * Initialize secure storage for saved login credentials. Optional - without it,
+ * an expired session always requires logging in again.
+ * Only pass a provider that encrypts data at rest (e.g., Raycast LocalStorage, the OS keychain).
+ */
+export function initCredentialStorage(provider: StorageProvider | null): void {
+  _credentialStorage = provider;
+}
+
+/**
+ * Get the configured credential storage, or null if silent re-login is disabled
+ */
+export function getCredentialStorage(): StorageProvider | null {
+  return _credentialStorage;
+}
@@ -0,0 +1,221 @@
+/**
+ * Daily and weekly hour targets, set by hand or taken from the employee's working schedule.
+ * Settings are stored per profile and kept on logout, like favorites.
+ */
+
+import { getAuthenticatedClient, getStoredSession } from "./auth";
+import {
+  CachedData,
+  HourTargetSettings,
+  HourTargets,
+  HourProgress,
+  WorkingSchedule,
+  SessionExpiredError,
+  NetworkError,
+} from "./types";
+import { getStorage } from "./storage";
+import { profileKey } from "./profiles";
+import { getAttendanceStatus } from "./attendance";
+import { getTimesheetGrid } from "./timesheet";
+import { userToday } from "./datetime";
+import { CalendarAttendanceModel, EmployeeModel, ResourceCalendarModel, eq, read, searchRead } from "./orm";
+
+const TARGETS_KEY = "odoo_hour_targets";
+const SCHEDULE_CACHE_KEY = "odoo_working_schedule";
+const SCHEDULE_CACHE_TTL = 60 * 60 * 1000; // 1 hour - schedules rarely change
+const PROGRESS_CACHE_KEY = "odoo_hour_progress";
+const PROGRESS_CACHE_TTL = 15 * 60 * 1000; // 15 minutes - sums the week's timesheets on the server
+
+const DEFAULT_SETTINGS: HourTargetSettings = { useSchedule: false, dailyHours: 8, weeklyHours: 40 };
+
+// Monday is 0, like resource.calendar.attendance's dayofweek
+function weekdayIndex(date: Date): number {
+  return (date.getDay() + 6) % 7;
+}
+
+// Same parity as Odoo's resource.calendar.attendance.get_week_type
+function weekType(date: Date): number {
+  const ordinal = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86400000 + 719163;
+  return Math.floor((ordinal - 1) / 7) % 2;
+}
+
+/**
+ * Get the stored target settings, or the defaults (8h a day, 40h a week)
+ */
+export async function getHourTargetSettings(): Promise<HourTargetSettings> {
+  const raw = await getStorage().getItem(await profileKey(TARGETS_KEY));
+  if (!raw) return DEFAULT_SETTINGS;
+
+  try {
+    return { ...DEFAULT_SETTINGS, ...(JSON.parse(raw) as Partial<HourTargetSettings>) };
+  } catch {
+    console.log(`[Targets] Failed to parse stored targets`);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Save the target settings for the active profile
+ */
+export async function saveHourTargetSettings(settings: HourTargetSettings): Promise<void> {
+  await getStorage().setItem(await profileKey(TARGETS_KEY), JSON.stringify(settings));
+  // Progress is measured against the old targets
+  await getStorage().removeItem(await profileKey(PROGRESS_CACHE_KEY));
+}
+
+/**
+ * Read the working schedule (resource_calendar_id) of the current user's employee
+ * Returns null when the employee has no schedule
+ */
+export async function getWorkingSchedule(): Promise<WorkingSchedule | null> {
+  const cacheKey = await profileKey(SCHEDULE_CACHE_KEY);
+  const raw = await getStorage().getItem(cacheKey);
+  if (raw) {
+    try {
+      const cached = JSON.parse(raw) as CachedData<WorkingSchedule | null>;
+      if (Date.now() - cached.timestamp < SCHEDULE_CACHE_TTL) {
+        return cached.data;
+      }
+    } catch {
+      // Fall through and fetch again
+    }
+  }
+
+  const client = await getAuthenticatedClient();
+  const session = await getStoredSession();
+
+  const employees = await searchRead(
+    client,
+    EmployeeModel,
+    [eq("user_id", session?.userId ?? 0)],
+    ["resource_calendar_id"],
+    { limit: 1 },
+  );
+
+  let schedule: WorkingSchedule | null = null;
+  const calendar = employees[0]?.resource_calendar_id;
+  if (calendar) {
+    const [calendars, attendances] = await Promise.all([
+      read(client, ResourceCalendarModel, [calendar[0]], ["two_weeks_calendar", "hours_per_day"]),
+      searchRead(
+        client,
+        CalendarAttendanceModel,
+        [eq("calendar_id", calendar[0])],
+        ["dayofweek", "hour_from", "hour_to", "day_period", "week_type"],
+      ),
+    ]);
+
+    const weeks = calendars[0]?.two_weeks_calendar ? [0, 1] : [null];
+    schedule = {
+      name: calendar[1],
+      weeks: weeks.map((type) => {
+        const hours = [0, 0, 0, 0, 0, 0, 0];
+        for (const attendance of attendances) {
+          // Lunch breaks are listed as attendances on recent versions but are not worked
+          if (attendance.day_period === "lunch") continue;
+          if (type !== null && attendance.week_type !== String(type)) continue;
+          hours[parseInt(attendance.dayofweek)] += attendance.hour_to - attendance.hour_from;
+        }
+        return hours;
+      }),
+    };
+
+    // Flexible schedules have no attendances, only hours per day
+    const hoursPerDay = calendars[0]?.hours_per_day ?? 0;
+    if (attendances.length === 0 && hoursPerDay > 0) {
+      schedule.weeks = [[hoursPerDay, hoursPerDay, hoursPerDay, hoursPerDay, hoursPerDay, 0, 0]];
+    }
+  }
+
+  const cached: CachedData<WorkingSchedule | null> = { data: schedule, timestamp: Date.now() };
+  await getStorage().setItem(cacheKey, JSON.stringify(cached));
+
+  return schedule;
+}
+
+/**
+ * Get the targets for a date's day and week
+ * Manual targets apply Monday to Friday. When the working schedule can't be read,
+ * the manual targets are used instead.
+ */
+export async function getHourTargets(date = userToday()): Promise<HourTargets> {
+  const settings = await getHourTargetSettings();
+
+  if (settings.useSchedule) {
+    try {
+      const schedule = await getWorkingSchedule();
+      if (schedule) {
+        const week = schedule.weeks[schedule.weeks.length > 1 ? weekType(date) : 0];
+        return {
+          source: "schedule",
+          scheduleName: schedule.name,
+          daily: week[weekdayIndex(date)],
+          weekly: week.reduce((sum, hours) => sum + hours, 0),
+        };
+      }
+      console.log("[Targets] No working schedule on the employee, using manual targets");
+    } catch (error) {
+      if (error instanceof SessionExpiredError || error instanceof NetworkError) {
+        throw error;
+      }
+      console.log("[Targets] Cannot read the working schedule, using manual targets:", error);
+    }
+  }
+
+  return {
+    source: "manual",
+    scheduleName: null,
+    daily: weekdayIndex(date) < 5 ? settings.dailyHours : 0,
+    weekly: settings.weeklyHours,
+  };
+}
+
+/**
+ * Compare today's and this week's logged hours, and today's attendance, against the targets
+ * With useCache, a result from the last 15 minutes is returned without asking the server.
+ */
+export async function getHourProgress(useCache = false): Promise<HourProgress> {
+  const cacheKey = await profileKey(PROGRESS_CACHE_KEY);
+  if (useCache) {
+    const raw = await getStorage().getItem(cacheKey);
+    if (raw) {
+      try {
+        const cached = JSON.parse(raw) as CachedData<HourProgress>;
+        if (Date.now() - cached.timestamp < PROGRESS_CACHE_TTL) {
+          return cached.data;
+        }
+      } catch {
+        // Fall through and fetch again
+      }
+    }
+  }
+
+  const today = userToday();
+
+  const [targets, grid, attendedToday] = await Promise.all([
+    getHourTargets(today),
+    getTimesheetGrid(today),
+    getAttendanceStatus(true)
+      .then((state) => state.hours_today || 0)
+      .catch((error) => {
+        if (error instanceof SessionExpiredError) {
+          throw error;
+        }
+        // Attendance may not be installed - timesheet progress still works
+        console.log("[Targets] Attendance unavailable:", error instanceof Error ? error.message : error);
+        return null;
+      }),
+  ]);
+
+  const progress: HourProgress = {
+    targets,
+    loggedToday: grid.dailyTotals[weekdayIndex(today)],
+    loggedWeek: grid.total,
+    attendedToday,
+  };
+
+  const cached: CachedData<HourProgress> = { data: progress, timestamp: Date.now() };
+  await getStorage().setItem(cacheKey, JSON.stringify(cached));
+
+  return progress;
+}
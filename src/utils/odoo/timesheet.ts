@@ -2,21 +2,65 @@
  * Timesheet API for live tracking functionality
  */
 
-import { getAuthenticatedClient } from "./auth";
-import { Project, Task, TimerState, CachedData } from "./types";
+import { getAuthenticatedClient, getStoredSession } from "./auth";
+import { OdooClient } from "./client";
+import {
+  Project,
+  Task,
+  TimerState,
+  TimerStopResult,
+  TimesheetRoundingRules,
+  CachedData,
+  DateRange,
+  TimesheetEntry,
+  TimesheetEntryChanges,
+  TimesheetGrid,
+  TimesheetGridRow,
+  SessionExpiredError,
+  NetworkError,
+} from "./types";
 import { getStorage } from "./storage";
-
-// Cache configuration
+import { profileKey } from "./profiles";
+import { recordRecentTask } from "./favorites";
+import { getElapsedSeconds, addDays, startOfWeek } from "./format";
+import { parseOdooDatetime, toOdooDate, toOdooDatetime, userToday } from "./datetime";
+import {
+  AnalyticLineFields,
+  AnalyticLineModel,
+  Condition,
+  GroupInfo,
+  Model,
+  ProjectModel,
+  RecordOf,
+  TaskModel,
+  Values,
+  callMethod,
+  create,
+  eq,
+  gte,
+  lte,
+  nameSearch,
+  ne,
+  read,
+  readGroup,
+  searchRead,
+  unlink,
+  write,
+} from "./orm";
+
+// Cache configuration (keys are namespaced per profile)
 const TIMER_CACHE_KEY = "odoo_timer_cache";
 const TIMER_CACHE_TTL = 30 * 1000; // 30 seconds
+const ROUNDING_CACHE_KEY = "odoo_timesheet_rounding";
+const ROUNDING_CACHE_TTL = 60 * 60 * 1000; // 1 hour - company settings rarely change
 
 async function cacheTimerState(state: TimerState): Promise<void> {
   const cached: CachedData<TimerState> = { data: state, timestamp: Date.now() };
-  await getStorage().setItem(TIMER_CACHE_KEY, JSON.stringify(cached));
+  await getStorage().setItem(await profileKey(TIMER_CACHE_KEY), JSON.stringify(cached));
 }
 
 async function getCachedTimerState(): Promise<TimerState | null> {
-  const raw = await getStorage().getItem(TIMER_CACHE_KEY);
+  const raw = await getStorage().getItem(await profileKey(TIMER_CACHE_KEY));
   if (!raw) return null;
 
   try {
@@ -31,7 +75,27 @@ async function getCachedTimerState(): Promise<TimerState | null> {
 }
 
 async function clearTimerCache(): Promise<void> {
-  await getStorage().removeItem(TIMER_CACHE_KEY);
+  await getStorage().removeItem(await profileKey(TIMER_CACHE_KEY));
+}
+
+/**
+ * Remember a started timer's project and task in the recently used list
+ * Never fails the timer start - the list is only a convenience
+ */
+async function rememberRecentTask(state: TimerState): Promise<void> {
+  if (!state.projectId || !state.taskId || !state.projectName || !state.taskName) return;
+
+  try {
+    await recordRecentTask({
+      projectId: state.projectId,
+      projectName: state.projectName,
+      taskId: state.taskId,
+      taskName: state.taskName,
+      description: state.description,
+    });
+  } catch (error) {
+    console.error("[Timesheet] Failed to record recent task:", error);
+  }
 }
 
 /**
@@ -44,8 +108,9 @@ export async function startTimer(): Promise<{ timerId: number; startTime: string
 
   try {
     // Call the action method exactly as Odoo UI does: args=[{}]
-    const result = await client.callKw<number | { id: number } | false | null>(
-      "account.analytic.line",
+    const result = await callMethod<number | { id: number } | false | null>(
+      client,
+      AnalyticLineModel,
       "action_start_new_timesheet_timer",
       [{}], // Empty object (not empty list!)
     );
@@ -58,14 +123,14 @@ export async function startTimer(): Promise<{ timerId: number; startTime: string
     if (result === false || result === null) {
       console.log("[Timesheet] Action returned false/null, calling get_running_timer");
 
-      const timerResult = await client.callKw<{
+      const timerResult = await callMethod<{
         id?: number;
         start?: number;
         project_id?: number;
         task_id?: number;
         description?: string;
         step_timer?: number;
-      }>("account.analytic.line", "get_running_timer", []);
+      }>(client, AnalyticLineModel, "get_running_timer");
 
       console.log("[Timesheet] get_running_timer result:", JSON.stringify(timerResult));
 
@@ -85,6 +150,8 @@ export async function startTimer(): Promise<{ timerId: number; startTime: string
         taskName: null,
         description: timerResult.description || null,
         startTime,
+        paused: false,
+        timerPause: null,
       };
 
       await cacheTimerState(timerState);
@@ -113,6 +180,8 @@ export async function startTimer(): Promise<{ timerId: number; startTime: string
       taskName: null,
       description: null,
       startTime,
+      paused: false,
+      timerPause: null,
     };
 
     await cacheTimerState(timerState);
@@ -139,7 +208,7 @@ export async function updateTimer(
 ): Promise<void> {
   const client = await getAuthenticatedClient();
 
-  const values: Record<string, unknown> = {};
+  const values: Values<AnalyticLineFields> = {};
 
   if (projectId !== undefined) {
     values.project_id = projectId;
@@ -154,7 +223,7 @@ export async function updateTimer(
   }
 
   // Update the analytic line
-  await client.callKw("account.analytic.line", "write", [[timerId], values]);
+  await write(client, AnalyticLineModel, [timerId], values);
 
   // Update cached state
   const cachedState = await getCachedTimerState();
@@ -208,7 +277,7 @@ export async function startTimerWithDetails(
   // Step 1: Create a timer record with project and task
   console.log("[Timesheet] Step 1: Creating timer record with project and task");
 
-  const values: Record<string, unknown> = {
+  const values: Values<AnalyticLineFields> = {
     project_id: projectId,
     task_id: taskId,
   };
@@ -217,27 +286,35 @@ export async function startTimerWithDetails(
     values.name = description;
   }
 
-  const timerId = await client.callKw<number>("account.analytic.line", "create", [values]);
+  const timerId = await create(client, AnalyticLineModel, values);
 
   console.log("[Timesheet] Created timer record with ID:", timerId);
 
-  // Step 2: Start the timer using action_timer_start (this sets timer_start to now)
-  console.log("[Timesheet] Step 2: Starting the timer with action_timer_start");
-  await client.callKw("account.analytic.line", "action_timer_start", [[timerId]]);
+  let startTime: string;
+  try {
+    // Step 2: Start the timer using action_timer_start (this sets timer_start to now)
+    console.log("[Timesheet] Step 2: Starting the timer with action_timer_start");
+    await callMethod(client, AnalyticLineModel, "action_timer_start", [[timerId]]);
 
-  console.log("[Timesheet] Step 4: Reading actual timer_start field from database");
+    console.log("[Timesheet] Step 4: Reading actual timer_start field from database");
 
-  // Step 4: Read the actual timer_start field from the database (this is the real timestamp)
-  const timerDetails = await client.callKw<Array<{ timer_start: string }>>("account.analytic.line", "read", [
-    [timerId],
-    ["timer_start"],
-  ]);
+    // Step 4: Read the actual timer_start field from the database (this is the real timestamp)
+    const timerDetails = await read(client, AnalyticLineModel, [timerId], ["timer_start"]);
 
-  if (!timerDetails || timerDetails.length === 0) {
-    throw new Error("Failed to read timer details");
+    if (!timerDetails || timerDetails.length === 0 || !timerDetails[0].timer_start) {
+      throw new Error("Failed to read timer details");
+    }
+
+    startTime = timerDetails[0].timer_start;
+  } catch (error) {
+    // Don't leave an empty line behind when the timer could not be started
+    console.error("[Timesheet] Failed to start timer, removing line", timerId);
+    await unlink(client, AnalyticLineModel, [timerId]).catch((unlinkError) => {
+      console.error("[Timesheet] Failed to remove line", timerId, unlinkError);
+    });
+    throw error;
   }
 
-  const startTime = timerDetails[0].timer_start;
   console.log("[Timesheet] Timer started successfully. Actual start time from DB:", startTime);
 
   // Cache the timer state
@@ -249,18 +326,25 @@ export async function startTimerWithDetails(
     taskName: null,
     description: description || null,
     startTime,
+    paused: false,
+    timerPause: null,
   };
 
-  // Fetch project and task names
-  const projects = await getProjects();
-  const project = projects.find((p) => p.id === projectId);
-  timerState.projectName = project?.name || null;
+  // Fetch project and task names (display only - the timer is already running)
+  try {
+    const projects = await getProjects();
+    const project = projects.find((p) => p.id === projectId);
+    timerState.projectName = project?.name || null;
 
-  const tasks = await getTasks(projectId);
-  const task = tasks.find((t) => t.id === taskId);
-  timerState.taskName = task?.name || null;
+    const tasks = await getTasks(projectId);
+    const task = tasks.find((t) => t.id === taskId);
+    timerState.taskName = task?.name || null;
+  } catch (error) {
+    console.error("[Timesheet] Failed to fetch project and task names:", error);
+  }
 
   await cacheTimerState(timerState);
+  await rememberRecentTask(timerState);
 
   return { timerId, startTime };
 }
@@ -287,7 +371,7 @@ export async function assignTimerDetails(
   );
 
   // Step 1: onchange call for project_id
-  await client.callKw("account.analytic.line", "onchange", [
+  await callMethod(client, AnalyticLineModel, "onchange", [
     [], // Empty list for new records
     {
       name: false,
@@ -313,7 +397,7 @@ export async function assignTimerDetails(
   console.log("[Timesheet] Completed onchange for project_id");
 
   // Step 2: onchange call for task_id
-  await client.callKw("account.analytic.line", "onchange", [
+  await callMethod(client, AnalyticLineModel, "onchange", [
     [timerId], // Timer ID for existing records
     { task_id: taskId },
     ["task_id"],
@@ -333,7 +417,7 @@ export async function assignTimerDetails(
   console.log("[Timesheet] Completed onchange for task_id");
 
   // Step 3: web_save to persist task_id and description
-  const saveData: Record<string, unknown> = {
+  const saveData: Values<AnalyticLineFields> = {
     task_id: taskId,
   };
 
@@ -341,7 +425,7 @@ export async function assignTimerDetails(
     saveData.name = description;
   }
 
-  await client.callKw("account.analytic.line", "web_save", [[timerId], saveData], {
+  await callMethod(client, AnalyticLineModel, "web_save", [[timerId], saveData], {
     specification: {},
   });
 
@@ -369,27 +453,618 @@ export async function assignTimerDetails(
   console.log("[Timesheet] Completed assignTimerDetails successfully");
 }
 
+/**
+ * Log time for past work as a finished timesheet line (no timer involved)
+ * Returns the ID of the created account.analytic.line
+ */
+export async function createTimesheetEntry(
+  projectId: number,
+  taskId: number,
+  date: Date,
+  hours: number,
+  description: string,
+): Promise<number> {
+  if (!(hours > 0)) {
+    throw new Error("Duration must be greater than zero");
+  }
+
+  const client = await getAuthenticatedClient();
+
+  console.log("[Timesheet] Creating manual entry - projectId:", projectId, "taskId:", taskId, "hours:", hours);
+
+  // The employee defaults to the current user's employee on the Odoo side
+  const entryId = await create(client, AnalyticLineModel, {
+    project_id: projectId,
+    task_id: taskId,
+    date: toOdooDate(date),
+    unit_amount: hours,
+    name: description,
+  });
+
+  console.log("[Timesheet] Created manual entry with ID:", entryId);
+
+  return entryId;
+}
+
+// Fields that only exist when the matching Odoo module is installed
+const OPTIONAL_LINE_FIELDS = ["timer_start", "validated", "timesheet_invoice_id"] as const;
+
+const LINE_FIELDS = ["date", "name", "project_id", "task_id", "unit_amount"] as const;
+
+type AnalyticLineRecord = RecordOf<AnalyticLineFields, (typeof LINE_FIELDS)[number]> &
+  Partial<Pick<AnalyticLineFields, (typeof OPTIONAL_LINE_FIELDS)[number]>>;
+
+/**
+ * Filter field names down to those the model actually has
+ */
+async function getExistingFields<F extends { id: number }, K extends keyof F & string>(
+  client: OdooClient,
+  model: Model<F>,
+  fields: readonly K[],
+): Promise<K[]> {
+  const available = await callMethod<Record<string, unknown>>(client, model, "fields_get", [fields], {
+    attributes: ["type"],
+  });
+  return fields.filter((field) => field in available);
+}
+
+function toTimesheetEntry(record: AnalyticLineRecord): TimesheetEntry {
+  const readOnlyReason = record.validated ? "validated" : record.timesheet_invoice_id ? "invoiced" : null;
+
+  return {
+    id: record.id,
+    date: record.date,
+    description: record.name || "",
+    projectId: record.project_id ? record.project_id[0] : null,
+    projectName: record.project_id ? record.project_id[1] : null,
+    taskId: record.task_id ? record.task_id[0] : null,
+    taskName: record.task_id ? record.task_id[1] : null,
+    hours: record.unit_amount,
+    isRunning: !!record.timer_start,
+    readOnly: readOnlyReason !== null,
+    readOnlyReason,
+  };
+}
+
+/**
+ * Domain leaf for the lines that belong to the logged-in employee
+ * Falls back to the user when the session has no employee linked
+ */
+async function getOwnerFilter(): Promise<Condition<AnalyticLineFields>> {
+  const session = await getStoredSession();
+  return session?.employeeId ? eq("employee_id", session.employeeId) : eq("user_id", session?.userId ?? 0);
+}
+
+/**
+ * Get the current employee's timesheet lines in a date range, newest first
+ */
+export async function getTimesheetEntries(range: DateRange): Promise<TimesheetEntry[]> {
+  const client = await getAuthenticatedClient();
+  const ownerFilter = await getOwnerFilter();
+
+  const optionalFields = await getExistingFields(client, AnalyticLineModel, OPTIONAL_LINE_FIELDS);
+
+  const records = await searchRead(
+    client,
+    AnalyticLineModel,
+    [ownerFilter, ne("project_id", false), gte("date", toOdooDate(range.from)), lte("date", toOdooDate(range.to))],
+    [...LINE_FIELDS, ...optionalFields],
+    { order: "date desc, id desc" },
+  );
+
+  return records.map(toTimesheetEntry);
+}
+
+/**
+ * Odoo date of a read_group group by "date:day"
+ * The group label is localized, so use its range (or its domain on older servers)
+ */
+function groupDay(group: GroupInfo): string | null {
+  const range = group.__range?.["date:day"];
+  if (range) {
+    return range.from.substring(0, 10);
+  }
+
+  const leaf = group.__domain?.find((term) => Array.isArray(term) && term[0] === "date" && term[1] === ">=");
+  return Array.isArray(leaf) ? String(leaf[2]).substring(0, 10) : null;
+}
+
+/**
+ * Get the week containing a date as project/task rows against Monday to Sunday,
+ * summed on the server with read_group like Odoo's grid view
+ */
+export async function getTimesheetGrid(week: Date): Promise<TimesheetGrid> {
+  const client = await getAuthenticatedClient();
+  const ownerFilter = await getOwnerFilter();
+
+  const monday = startOfWeek(week);
+  const days = Array.from({ length: 7 }, (_, i) => toOdooDate(addDays(monday, i)));
+
+  const groups = await readGroup(
+    client,
+    AnalyticLineModel,
+    [ownerFilter, ne("project_id", false), gte("date", days[0]), lte("date", days[6])],
+    ["unit_amount:sum"],
+    ["project_id", "task_id", "date:day"],
+    { lazy: false },
+  );
+
+  const rows = new Map<string, TimesheetGridRow>();
+  for (const group of groups) {
+    const dayIndex = days.indexOf(groupDay(group) ?? "");
+    if (!group.project_id || dayIndex < 0) continue;
+
+    const taskId = group.task_id ? group.task_id[0] : null;
+    const key = `${group.project_id[0]}:${taskId ?? ""}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        projectId: group.project_id[0],
+        projectName: group.project_id[1],
+        taskId,
+        taskName: group.task_id ? group.task_id[1] : null,
+        hours: days.map(() => 0),
+        total: 0,
+      };
+      rows.set(key, row);
+    }
+
+    row.hours[dayIndex] += group.unit_amount;
+    row.total += group.unit_amount;
+  }
+
+  const sortedRows = [...rows.values()].sort(
+    (a, b) => a.projectName.localeCompare(b.projectName) || (a.taskName ?? "").localeCompare(b.taskName ?? ""),
+  );
+  const dailyTotals = days.map((_, i) => sortedRows.reduce((sum, row) => sum + row.hours[i], 0));
+
+  return {
+    days,
+    rows: sortedRows,
+    dailyTotals,
+    total: dailyTotals.reduce((sum, hours) => sum + hours, 0),
+  };
+}
+
+/**
+ * Set the total hours of one grid cell (project, task and day)
+ * Like Odoo's grid: a single line is updated in place, an empty cell gets a new line,
+ * and a cell with several lines gets an extra line for the difference.
+ */
+export async function setTimesheetGridCell(
+  projectId: number,
+  taskId: number | null,
+  date: Date,
+  hours: number,
+): Promise<void> {
+  if (!(hours >= 0)) {
+    throw new Error("Hours can't be negative");
+  }
+
+  const client = await getAuthenticatedClient();
+  const ownerFilter = await getOwnerFilter();
+  const day = toOdooDate(date);
+
+  const optionalFields = await getExistingFields(client, AnalyticLineModel, OPTIONAL_LINE_FIELDS);
+  const records = await searchRead(
+    client,
+    AnalyticLineModel,
+    [ownerFilter, eq("project_id", projectId), eq("task_id", taskId ?? false), eq("date", day)],
+    [...LINE_FIELDS, ...optionalFields],
+    { order: "id" },
+  );
+  const lines = records.map(toTimesheetEntry);
+
+  if (lines.some((line) => line.readOnly)) {
+    throw new Error("This day has validated or invoiced time and can no longer be changed");
+  }
+
+  const current = lines.reduce((sum, line) => sum + line.hours, 0);
+  const delta = hours - current;
+  if (Math.abs(delta) < 1 / 3600) {
+    return;
+  }
+
+  console.log("[Timesheet] Setting grid cell", projectId, taskId, day, "from", current, "to", hours);
+
+  if (lines.length === 1) {
+    await write(client, AnalyticLineModel, [lines[0].id], { unit_amount: hours });
+    return;
+  }
+
+  const values: Values<AnalyticLineFields> = {
+    project_id: projectId,
+    date: day,
+    unit_amount: lines.length === 0 ? hours : delta,
+    name: "/",
+  };
+  if (taskId) {
+    values.task_id = taskId;
+  }
+  await create(client, AnalyticLineModel, values);
+}
+
+/**
+ * Keep only the edits that differ from the entry
+ * Hours count as changed at minute precision, so a duration shown as h:mm and saved as is
+ * leaves Odoo's rounded value alone.
+ */
+export function getTimesheetEntryChanges(
+  entry: TimesheetEntry,
+  edited: Required<TimesheetEntryChanges>,
+): TimesheetEntryChanges {
+  const changes: TimesheetEntryChanges = {};
+
+  if (edited.projectId !== entry.projectId) {
+    changes.projectId = edited.projectId;
+  }
+  if (edited.taskId !== entry.taskId) {
+    changes.taskId = edited.taskId;
+  }
+  if (Math.round(edited.hours * 60) !== Math.round(entry.hours * 60)) {
+    changes.hours = edited.hours;
+  }
+  if (edited.description !== entry.description) {
+    changes.description = edited.description;
+  }
+
+  return changes;
+}
+
+/**
+ * Change the hours, description, project or task of a timesheet line
+ * Only the given fields are written; without changes nothing is sent.
+ */
+export async function updateTimesheetEntry(entryId: number, changes: TimesheetEntryChanges): Promise<void> {
+  if (Object.keys(changes).length === 0) {
+    return;
+  }
+
+  const client = await getAuthenticatedClient();
+
+  const values: Values<AnalyticLineFields> = {};
+
+  if (changes.projectId !== undefined) {
+    values.project_id = changes.projectId;
+  }
+
+  if (changes.taskId !== undefined) {
+    values.task_id = changes.taskId;
+  }
+
+  if (changes.hours !== undefined) {
+    if (!(changes.hours > 0)) {
+      throw new Error("Duration must be greater than zero");
+    }
+    values.unit_amount = changes.hours;
+  }
+
+  if (changes.description !== undefined) {
+    values.name = changes.description;
+  }
+
+  await write(client, AnalyticLineModel, [entryId], values);
+}
+
+/**
+ * Delete a timesheet line
+ */
+export async function deleteTimesheetEntry(entryId: number): Promise<void> {
+  const client = await getAuthenticatedClient();
+
+  await unlink(client, AnalyticLineModel, [entryId]);
+
+  // The deleted line may have been the running timer
+  const cachedState = await getCachedTimerState();
+  if (cachedState && cachedState.timerId === entryId) {
+    await clearTimerCache();
+  }
+}
+
+/**
+ * Get recently used project/task/description combinations, most recent first
+ * Lines without a project and task can't be resumed and are left out
+ */
+export async function getRecentTimesheetEntries(limit = 10, days = 14): Promise<TimesheetEntry[]> {
+  const to = userToday();
+  const from = addDays(to, -days);
+  const entries = await getTimesheetEntries({ from, to });
+
+  const seen = new Set<string>();
+  const recent: TimesheetEntry[] = [];
+  for (const entry of entries) {
+    if (!entry.projectId || !entry.taskId) continue;
+
+    const key = `${entry.projectId}:${entry.taskId}:${entry.description}`;
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    recent.push(entry);
+    if (recent.length >= limit) break;
+  }
+
+  return recent;
+}
+
+/**
+ * Continue working on a previous timesheet entry
+ * Today's lines get Odoo's timer restarted so the time adds up on the same line;
+ * older lines start a new timer with the same project, task and description
+ */
+export async function resumeTimesheetEntry(entry: TimesheetEntry): Promise<{ timerId: number; startTime: string }> {
+  if (!entry.projectId || !entry.taskId) {
+    throw new Error("Only entries with a project and task can be resumed");
+  }
+
+  if (entry.date !== toOdooDate(userToday()) || entry.readOnly) {
+    console.log("[Timesheet] Resuming entry", entry.id, "as a new timer");
+    return startTimerWithDetails(entry.projectId, entry.taskId, entry.description || undefined);
+  }
+
+  const client = await getAuthenticatedClient();
+
+  console.log("[Timesheet] Restarting timer on today's entry", entry.id);
+  await callMethod(client, AnalyticLineModel, "action_timer_start", [[entry.id]]);
+
+  const timerDetails = await read(client, AnalyticLineModel, [entry.id], ["timer_start"]);
+
+  if (!timerDetails || timerDetails.length === 0 || !timerDetails[0].timer_start) {
+    throw new Error("Failed to read timer details");
+  }
+
+  const startTime = timerDetails[0].timer_start;
+
+  const timerState: TimerState = {
+    timerId: entry.id,
+    projectId: entry.projectId,
+    projectName: entry.projectName,
+    taskId: entry.taskId,
+    taskName: entry.taskName,
+    description: entry.description || null,
+    startTime,
+    paused: false,
+    timerPause: null,
+  };
+
+  await cacheTimerState(timerState);
+  await rememberRecentTask(timerState);
+
+  return { timerId: entry.id, startTime };
+}
+
+/**
+ * Get the company's minimum duration and rounding for timer entries
+ * System parameters are admin-only, so regular users fall back to the timer step,
+ * which Odoo sets to the rounding; the minimum duration then stays unknown.
+ */
+export async function getTimesheetRoundingRules(): Promise<TimesheetRoundingRules> {
+  const cacheKey = await profileKey(ROUNDING_CACHE_KEY);
+  const raw = await getStorage().getItem(cacheKey);
+  if (raw) {
+    try {
+      const cached = JSON.parse(raw) as CachedData<TimesheetRoundingRules>;
+      if (Date.now() - cached.timestamp < ROUNDING_CACHE_TTL) {
+        return cached.data;
+      }
+    } catch {
+      // Fall through and fetch again
+    }
+  }
+
+  const client = await getAuthenticatedClient();
+
+  let rules: TimesheetRoundingRules;
+  try {
+    const [minDuration, rounding] = await Promise.all([
+      client.callKw<string | false>("ir.config_parameter", "get_param", ["timesheet_grid.timesheet_min_duration"]),
+      client.callKw<string | false>("ir.config_parameter", "get_param", ["timesheet_grid.timesheet_rounding"]),
+    ]);
+    rules = { minDuration: parseInt(minDuration || "0") || 0, rounding: parseInt(rounding || "0") || 0 };
+  } catch (error) {
+    if (error instanceof SessionExpiredError || error instanceof NetworkError) {
+      throw error;
+    }
+
+    console.log("[Timesheet] Cannot read timesheet settings, using the timer step as rounding");
+    const timer = await callMethod<{ step_timer?: number }>(client, AnalyticLineModel, "get_running_timer");
+    rules = { minDuration: null, rounding: timer?.step_timer ?? 0 };
+  }
+
+  const cached: CachedData<TimesheetRoundingRules> = { data: rules, timestamp: Date.now() };
+  await getStorage().setItem(cacheKey, JSON.stringify(cached));
+
+  return rules;
+}
+
+/**
+ * Apply Odoo's timer rounding to a number of minutes:
+ * raise to the minimum duration, then round up to the next rounding step
+ */
+export function roundTimesheetMinutes(minutes: number, rules: TimesheetRoundingRules): number {
+  let rounded = Math.max(rules.minDuration ?? 0, minutes);
+  if (rules.rounding > 0 && Math.ceil(rounded % rules.rounding) > 0) {
+    rounded = Math.ceil(rounded / rules.rounding) * rules.rounding;
+  }
+  return rounded;
+}
+
+/**
+ * Move a running timer's start to when it really started, such as for a start made offline
+ */
+export async function backdateTimer(timerId: number, startedAt: Date): Promise<void> {
+  const client = await getAuthenticatedClient();
+
+  await write(client, AnalyticLineModel, [timerId], { timer_start: toOdooDatetime(startedAt) });
+  await clearTimerCache();
+}
+
 /**
  * Stop the active timer
+ * Odoo rounds the tracked time on save, so the returned duration is read back from the line.
+ * Pass the time for a stop that happened earlier, such as one made offline.
  */
-export async function stopTimer(timerId: number): Promise<{ duration: number }> {
+export async function stopTimer(timerId: number, stoppedAt?: Date): Promise<TimerStopResult> {
   const client = await getAuthenticatedClient();
 
+  // Capture the line before stopping to tell how much time this session tracked
+  const [before] = await read(client, AnalyticLineModel, [timerId], ["unit_amount", "timer_start", "timer_pause"]);
+  const serverTime = await getServerTime();
+
+  // Odoo always stops at its current time, so leave out the time since the real stop by starting that much later
+  if (stoppedAt && before?.timer_start && !before.timer_pause) {
+    const lateMs = parseOdooDatetime(serverTime).getTime() - stoppedAt.getTime();
+    if (lateMs > 0) {
+      before.timer_start = toOdooDatetime(new Date(parseOdooDatetime(before.timer_start).getTime() + lateMs));
+      await write(client, AnalyticLineModel, [timerId], { timer_start: before.timer_start });
+    }
+  }
+
   // Stop the timer with save=true parameter
-  await client.callKw("account.analytic.line", "action_timer_stop", [timerId, true]);
+  await callMethod(client, AnalyticLineModel, "action_timer_stop", [timerId, true]);
 
   // Clear cached timer state
   await clearTimerCache();
 
   // Fetch the final duration
-  const lines = await client.callKw<{ unit_amount: number }[]>("account.analytic.line", "read", [
-    [timerId],
-    ["unit_amount"],
-  ]);
+  const lines = await read(client, AnalyticLineModel, [timerId], ["unit_amount"]);
+
+  const unitAmount = lines && lines.length > 0 ? lines[0].unit_amount : 0;
+  // A resumed line already held time, so only count what this stop added
+  const addedHours = Math.max(0, unitAmount - (before?.unit_amount ?? 0));
+  const trackedSeconds = before?.timer_start
+    ? Math.max(0, getElapsedSeconds(before.timer_start, before.timer_pause || serverTime))
+    : 0;
+
+  // Known minimum: compare directly. Unknown: more was saved than rounding alone explains
+  let minimumApplied = false;
+  const rules = await getTimesheetRoundingRules().catch(() => null);
+  if (rules && trackedSeconds > 0) {
+    const trackedMinutes = trackedSeconds / 60;
+    if (rules.minDuration !== null) {
+      minimumApplied = trackedMinutes < rules.minDuration;
+    } else {
+      minimumApplied = addedHours * 60 > roundTimesheetMinutes(trackedMinutes, rules) + 1;
+    }
+  }
+
+  return { duration: addedHours * 3600, trackedSeconds, minimumApplied };
+}
+
+/**
+ * Stop and save the current timer, then start a new one on another task
+ * The description is saved on the line being stopped.
+ * If the new timer can't be started, the previous line is restored and keeps running.
+ */
+export async function switchTimer(
+  fromTimerId: number,
+  toProjectId: number,
+  toTaskId: number,
+  description?: string,
+): Promise<TimerStopResult & { timerId: number; startTime: string }> {
+  const client = await getAuthenticatedClient();
+
+  console.log("[Timesheet] Switching timer", fromTimerId, "to project:", toProjectId, "task:", toTaskId);
+
+  // Snapshot the running line so it can be put back exactly as it was
+  const snapshot = await read(
+    client,
+    AnalyticLineModel,
+    [fromTimerId],
+    ["name", "unit_amount", "timer_start", "timer_pause"],
+  );
+
+  if (!snapshot || snapshot.length === 0 || !snapshot[0].timer_start) {
+    throw new Error("The current timer is no longer running");
+  }
+
+  const previous = snapshot[0];
+
+  if (description !== undefined) {
+    await write(client, AnalyticLineModel, [fromTimerId], { name: description });
+  }
+
+  const stopped = await stopTimer(fromTimerId);
+
+  try {
+    const started = await startTimerWithDetails(toProjectId, toTaskId);
+    return { ...stopped, ...started };
+  } catch (error) {
+    console.error("[Timesheet] Failed to start new timer, restoring timer", fromTimerId);
+
+    try {
+      await callMethod(client, AnalyticLineModel, "action_timer_start", [[fromTimerId]]);
+      await write(client, AnalyticLineModel, [fromTimerId], {
+        name: previous.name,
+        unit_amount: previous.unit_amount,
+        timer_start: previous.timer_start,
+        timer_pause: previous.timer_pause,
+      });
+    } catch (restoreError) {
+      console.error("[Timesheet] Failed to restore timer", fromTimerId, restoreError);
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Could not start the new timer (${reason}) and the previous timer could not be restarted. Its time was saved.`,
+      );
+    }
+
+    // The cache still describes the new timer or nothing at all
+    await clearTimerCache();
+    throw error;
+  }
+}
+
+/**
+ * Pause the active timer; the elapsed time stops counting until it is resumed
+ */
+export async function pauseTimer(timerId: number): Promise<{ timerPause: string }> {
+  const client = await getAuthenticatedClient();
+
+  await callMethod(client, AnalyticLineModel, "action_timer_pause", [[timerId]]);
+
+  const lines = await read(client, AnalyticLineModel, [timerId], ["timer_pause"]);
+
+  if (!lines || lines.length === 0 || !lines[0].timer_pause) {
+    throw new Error("Failed to pause timer");
+  }
+
+  const timerPause = lines[0].timer_pause;
+
+  const cachedState = await getCachedTimerState();
+  if (cachedState && cachedState.timerId === timerId) {
+    cachedState.paused = true;
+    cachedState.timerPause = timerPause;
+    await cacheTimerState(cachedState);
+  }
+
+  return { timerPause };
+}
+
+/**
+ * Resume a paused timer
+ * Odoo moves timer_start forward by the paused time, so the new start time is returned
+ */
+export async function resumeTimer(timerId: number): Promise<{ startTime: string }> {
+  const client = await getAuthenticatedClient();
+
+  await callMethod(client, AnalyticLineModel, "action_timer_resume", [[timerId]]);
 
-  const duration = lines && lines.length > 0 ? lines[0].unit_amount * 3600 : 0;
+  const lines = await read(client, AnalyticLineModel, [timerId], ["timer_start"]);
 
-  return { duration };
+  if (!lines || lines.length === 0 || !lines[0].timer_start) {
+    throw new Error("Failed to resume timer");
+  }
+
+  const startTime = lines[0].timer_start;
+
+  const cachedState = await getCachedTimerState();
+  if (cachedState && cachedState.timerId === timerId) {
+    cachedState.startTime = startTime;
+    cachedState.paused = false;
+    cachedState.timerPause = null;
+    await cacheTimerState(cachedState);
+  }
+
+  return { startTime };
 }
 
 /**
@@ -399,7 +1074,7 @@ export async function cancelTimer(timerId: number): Promise<void> {
   const client = await getAuthenticatedClient();
 
   // Unlink (delete) the timer without saving
-  await client.callKw("account.analytic.line", "action_timer_unlink", [timerId]);
+  await callMethod(client, AnalyticLineModel, "action_timer_unlink", [timerId]);
 
   // Clear cached timer state
   await clearTimerCache();
@@ -411,14 +1086,7 @@ export async function cancelTimer(timerId: number): Promise<void> {
 export async function getProjects(search = ""): Promise<Project[]> {
   const client = await getAuthenticatedClient();
 
-  const result = await client.callKw<[number, string][]>(
-    "project.project",
-    "name_search",
-    [search], // name_search expects the search term as the first positional argument
-    {
-      limit: 50,
-    },
-  );
+  const result = await nameSearch(client, ProjectModel, search, { limit: 50 });
 
   return result.map(([id, name]) => ({ id, name }));
 }
@@ -429,15 +1097,7 @@ export async function getProjects(search = ""): Promise<Project[]> {
 export async function getTasks(projectId: number, search = ""): Promise<Task[]> {
   const client = await getAuthenticatedClient();
 
-  const result = await client.callKw<[number, string][]>(
-    "project.task",
-    "name_search",
-    [search], // name_search expects the search term as the first positional argument
-    {
-      args: [["project_id", "=", projectId]], // domain filter passed in kwargs
-      limit: 50,
-    },
-  );
+  const result = await nameSearch(client, TaskModel, search, { domain: [eq("project_id", projectId)], limit: 50 });
 
   return result.map(([id, name]) => ({ id, name }));
 }
@@ -448,7 +1108,7 @@ export async function getTasks(projectId: number, search = ""): Promise<Task[]>
 export async function createTask(projectId: number, name: string): Promise<Task> {
   const client = await getAuthenticatedClient();
 
-  const result = await client.callKw<[number, string]>("project.task", "name_create", [name], {
+  const result = await callMethod<[number, string]>(client, TaskModel, "name_create", [name], {
     context: {
       default_project_id: projectId,
     },
@@ -473,81 +1133,120 @@ export async function getServerTime(): Promise<string> {
 }
 
 /**
- * Get current running timer using get_running_timer endpoint
+ * Find the current user's paused timer, in the shape get_running_timer returns
+ * timer_pause is per user on Odoo's side, so no owner filter is needed
  */
-export async function getRunningTimer(useCache = true): Promise<TimerState | null> {
-  // Try cache first
-  if (useCache) {
-    const cached = await getCachedTimerState();
-    if (cached) {
-      return cached;
-    }
+async function findPausedTimer(
+  client: OdooClient,
+): Promise<{ id: number; project_id?: number; task_id?: number; description?: string } | null> {
+  const records = await searchRead(
+    client,
+    AnalyticLineModel,
+    [ne("timer_pause", false)],
+    ["name", "project_id", "task_id"],
+    { limit: 1 },
+  );
+
+  if (records.length === 0) {
+    return null;
   }
 
+  const record = records[0];
+  return {
+    id: record.id,
+    project_id: record.project_id ? record.project_id[0] : undefined,
+    task_id: record.task_id ? record.task_id[0] : undefined,
+    description: record.name || undefined,
+  };
+}
+
+/**
+ * Ask Odoo for the running (or paused) timer, bypassing the cache
+ * Unlike getRunningTimer, errors are thrown, so a timer can't be mistaken for stopped while Odoo is unreachable.
+ */
+export async function fetchRunningTimer(): Promise<TimerState | null> {
   const client = await getAuthenticatedClient();
 
   console.log("[Timesheet] Calling get_running_timer");
 
-  try {
-    const result = await client.callKw<{
-      id?: number;
-      start?: number;
-      project_id?: number;
-      task_id?: number;
-      description?: string;
-      step_timer?: number;
-    }>("account.analytic.line", "get_running_timer", []);
-
-    // Check if timer is running (has 'id' field)
-    if (!result || !result.id) {
-      await clearTimerCache();
-      return null;
-    }
+  const result = await callMethod<{
+    id?: number;
+    start?: number;
+    project_id?: number;
+    task_id?: number;
+    description?: string;
+    step_timer?: number;
+  }>(client, AnalyticLineModel, "get_running_timer");
+
+  // get_running_timer skips paused timers, so look for one of those before giving up
+  const timer = result?.id ? result : await findPausedTimer(client);
+
+  // Check if timer is running (has 'id' field)
+  if (!timer || !timer.id) {
+    await clearTimerCache();
+    return null;
+  }
 
-    const timerId = result.id;
+  const timerId = timer.id;
 
-    // Read the actual timer_start field from database (this is the real timestamp)
-    const timerDetails = await client.callKw<Array<{ timer_start: string }>>("account.analytic.line", "read", [
-      [timerId],
-      ["timer_start"],
-    ]);
+  // Read the actual timer_start field from database (this is the real timestamp)
+  const timerDetails = await read(client, AnalyticLineModel, [timerId], ["timer_start", "timer_pause"]);
 
-    if (!timerDetails || timerDetails.length === 0) {
-      console.error("[Timesheet] Failed to read timer_start field");
-      await clearTimerCache();
-      return null;
-    }
+  if (!timerDetails || timerDetails.length === 0 || !timerDetails[0].timer_start) {
+    console.error("[Timesheet] Failed to read timer_start field");
+    await clearTimerCache();
+    return null;
+  }
 
-    const startTime = timerDetails[0].timer_start;
-    console.log("[Timesheet] Timer start time from DB:", startTime);
+  const startTime = timerDetails[0].timer_start;
+  console.log("[Timesheet] Timer start time from DB:", startTime);
 
-    // Parse and cache timer state
-    const timerState: TimerState = {
-      timerId,
-      projectId: result.project_id || null,
-      projectName: null, // Will be fetched separately if needed
-      taskId: result.task_id || null,
-      taskName: null, // Will be fetched separately if needed
-      description: result.description || null,
-      startTime,
-    };
+  // Parse and cache timer state
+  const timerPause = timerDetails[0].timer_pause || null;
+  const timerState: TimerState = {
+    timerId,
+    projectId: timer.project_id || null,
+    projectName: null, // Will be fetched separately if needed
+    taskId: timer.task_id || null,
+    taskName: null, // Will be fetched separately if needed
+    description: timer.description || null,
+    startTime,
+    paused: timerPause !== null,
+    timerPause,
+  };
 
-    // Fetch project and task names if IDs are present
-    if (timerState.projectId) {
-      const projects = await getProjects();
-      const project = projects.find((p) => p.id === timerState.projectId);
-      timerState.projectName = project?.name || null;
-    }
+  // Fetch project and task names if IDs are present
+  if (timerState.projectId) {
+    const projects = await getProjects();
+    const project = projects.find((p) => p.id === timerState.projectId);
+    timerState.projectName = project?.name || null;
+  }
 
-    if (timerState.taskId && timerState.projectId) {
-      const tasks = await getTasks(timerState.projectId);
-      const task = tasks.find((t) => t.id === timerState.taskId);
-      timerState.taskName = task?.name || null;
-    }
+  if (timerState.taskId && timerState.projectId) {
+    const tasks = await getTasks(timerState.projectId);
+    const task = tasks.find((t) => t.id === timerState.taskId);
+    timerState.taskName = task?.name || null;
+  }
 
-    await cacheTimerState(timerState);
+  await cacheTimerState(timerState);
+
+  return timerState;
+}
+
+/**
+ * Get current running timer using get_running_timer endpoint
+ */
+export async function getRunningTimer(useCache = true): Promise<TimerState | null> {
+  // Try cache first
+  if (useCache) {
+    const cached = await getCachedTimerState();
+    if (cached) {
+      return cached;
+    }
+  }
 
-    return timerState;
+  try {
+    return await fetchRunningTimer();
   } catch (error) {
     console.error("[Timesheet] Error fetching running timer:", error);
     // If this fails, return null (no active timer)
@@ -0,0 +1,53 @@
+/**
+ * HTTP transport interface for dependency injection.
+ * Defaults to node-fetch; consumers can swap in another implementation (e.g., a mock Odoo server).
+ */
+
+import fetch from "node-fetch";
+
+export interface TransportRequest {
+  method: "GET" | "POST";
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+  redirect?: "follow" | "manual";
+}
+
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: { get(name: string): string | null };
+  json(): Promise<unknown>;
+  text(): Promise<string>;
+}
+
+export interface OdooTransport {
+  send(url: string, request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Default transport backed by node-fetch
+ */
+export const fetchTransport: OdooTransport = {
+  async send(url: string, request: TransportRequest): Promise<TransportResponse> {
+    return fetch(url, request);
+  },
+};
+
+let _transport: OdooTransport = fetchTransport;
+
+/**
+ * Replace the transport used by clients that are not given one explicitly.
+ * Pass nothing to restore the default node-fetch transport.
+ */
+export function initTransport(transport: OdooTransport = fetchTransport): void {
+  _transport = transport;
+}
+
+/**
+ * Get the configured transport
+ */
+export function getTransport(): OdooTransport {
+  return _transport;
+}
@@ -3,27 +3,71 @@
  */
 
 // Session and authentication types
-export interface SessionInfo {
-  sessionId: string;
+interface BaseSessionInfo {
   baseUrl: string;
   userId: number;
   companyId: number;
   employeeId: number;
   employeeName: string;
   username: string;
+  tz?: string; // IANA timezone from the user's preferences, when set in Odoo
+}
+
+// Cookie-based web session obtained with a password
+export interface PasswordSessionInfo extends BaseSessionInfo {
+  authType?: "password"; // Optional so sessions saved before API-key support still load
+  sessionId: string;
   cookies?: string[]; // HTTP cookies for session maintenance
 }
 
+// Stateless credentials sent with every /jsonrpc execute_kw call
+export interface ApiKeySessionInfo extends BaseSessionInfo {
+  authType: "api_key";
+  database: string;
+  apiKey: string;
+}
+
+export type SessionInfo = PasswordSessionInfo | ApiKeySessionInfo;
+
+export type AuthMethod = NonNullable<SessionInfo["authType"]>;
+
+export interface ApiKeyCredentials {
+  database: string;
+  uid: number;
+  apiKey: string;
+}
+
+export interface LoginOptions {
+  profile?: string; // Defaults to "user@host"
+  database?: string; // Guessed from the URL when omitted
+  rememberCredentials?: boolean; // Save the password for silent re-login (needs credential storage)
+}
+
+export interface DatabaseLookup {
+  databases: string[]; // Empty when the server has database listing disabled
+  suggested: string; // Best guess for the URL, empty to let Odoo decide
+}
+
+// Half-authenticated web session waiting for the TOTP code
+export interface TotpChallenge {
+  profile: string;
+  baseUrl: string;
+  database: string;
+  username: string;
+  cookies: string[];
+}
+
 export interface LoginResponse {
   jsonrpc: string;
   id: number;
   result: {
-    uid: number;
+    uid: number | null; // null when the user still has to pass two-factor authentication
     username: string;
     name: string;
     company_id: number;
     partner_id: number;
     session_id: string;
+    user_context?: { tz?: string | false };
   };
 }
 
@@ -36,6 +80,37 @@ export interface AttendanceState {
   employee_name: string;
 }
 
+export interface AttendanceRecord {
+  id: number;
+  checkIn: string; // ISO datetime (UTC)
+  checkOut: string | null; // Null while still checked in
+  workedHours: number; // Counted up to now for an open session
+}
+
+export interface AttendanceDay {
+  date: string; // Local date "YYYY-MM-DD" of the check-ins
+  sessions: AttendanceRecord[]; // Oldest first
+  workedHours: number;
+  gapHours: number; // Time between sessions, e.g. breaks
+}
+
+export interface OvertimeRecord {
+  id: number;
+  date: string; // Odoo date "YYYY-MM-DD"
+  hours: number; // Negative for a deficit
+  adjustment: boolean; // Manual correction by HR rather than attendance
+}
+
+export interface OvertimeBalance {
+  balance: number; // Employee's total overtime in hours, negative when owed
+  today: number; // Today's surplus or deficit, as of the last check-in or check-out
+}
+
+export interface AttendanceChangeResult {
+  state: AttendanceState;
+  changed: boolean; // False when already in the requested state
+}
+
 export interface AttendanceResponse {
   jsonrpc: string;
   id: number;
@@ -61,6 +136,61 @@ export interface TimerState {
   taskName: string | null;
   description: string | null;
   startTime: string | null;
+  paused: boolean; // Elapsed time is frozen while paused
+  timerPause: string | null; // When the timer was paused (Odoo datetime)
+}
+
+export interface TimesheetRoundingRules {
+  minDuration: number | null; // Minutes; null when the server doesn't let us read it
+  rounding: number; // Minutes; saved durations are rounded up to a multiple of this (0 = no rounding)
+}
+
+export interface TimerStopResult {
+  duration: number; // Seconds this stop added to the line (unit_amount), after Odoo's rounding
+  trackedSeconds: number; // Time the timer actually ran in this session
+  minimumApplied: boolean; // The tracked time was raised to the company's minimum duration
+}
+
+export interface DateRange {
+  from: Date; // Inclusive, local calendar date
+  to: Date; // Inclusive, local calendar date
+}
+
+export interface TimesheetEntry {
+  id: number;
+  date: string; // Odoo date "YYYY-MM-DD"
+  description: string;
+  projectId: number | null;
+  projectName: string | null;
+  taskId: number | null;
+  taskName: string | null;
+  hours: number;
+  isRunning: boolean; // Has a live timer
+  readOnly: boolean; // Validated or invoiced lines can no longer be changed
+  readOnlyReason: "validated" | "invoiced" | null;
+}
+
+export interface TimesheetGridRow {
+  projectId: number;
+  projectName: string;
+  taskId: number | null;
+  taskName: string | null;
+  hours: number[]; // One value per day of the grid, Monday first
+  total: number;
+}
+
+export interface TimesheetGrid {
+  days: string[]; // Odoo dates "YYYY-MM-DD", Monday to Sunday
+  rows: TimesheetGridRow[];
+  dailyTotals: number[];
+  total: number;
+}
+
+export interface TimesheetEntryChanges {
+  projectId?: number;
+  taskId?: number;
+  hours?: number;
+  description?: string;
 }
 
 export interface TimerStartResponse {
@@ -94,6 +224,7 @@ export interface JsonRpcResponse<T = unknown> {
     code: number;
     message: string;
     data?: {
+      name?: string; // Python exception class, e.g. "odoo.http.SessionExpiredException"
       message: string;
       debug: string;
     };
@@ -112,6 +243,44 @@ export class OdooApiError extends Error {
   }
 }
 
+export class NetworkError extends OdooApiError {
+  constructor(message: string) {
+    super(`Network error: ${message}`);
+    this.name = "NetworkError";
+  }
+}
+
+export class RequestTimeoutError extends OdooApiError {
+  constructor(public timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+export class TwoFactorRequiredError extends Error {
+  constructor(public challenge: TotpChallenge) {
+    super("Two-factor authentication code required");
+    this.name = "TwoFactorRequiredError";
+  }
+}
+
+export class AttendanceMismatchError extends Error {
+  constructor(
+    public expected: AttendanceState["attendance_state"],
+    public actual: AttendanceState,
+  ) {
+    super(expected === "checked_in" ? "Odoo still reports you as checked out" : "Odoo still reports you as checked in");
+    this.name = "AttendanceMismatchError";
+  }
+}
+
+export class SyncConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncConflictError";
+  }
+}
+
 export class SessionExpiredError extends Error {
   constructor(message = "Session expired, please login again") {
     super(message);
@@ -119,8 +288,90 @@ export class SessionExpiredError extends Error {
   }
 }
 
+// Server types
+export interface ServerVersion {
+  version: string; // As reported, e.g. "17.0" or "saas~17.2"
+  major: number;
+}
+
 // Cache types
+export interface TaskShortcut {
+  projectId: number;
+  projectName: string;
+  taskId: number;
+  taskName: string;
+  description: string | null; // Used when starting the pair without a description
+}
+
+export interface TaskShortcuts {
+  favorites: TaskShortcut[];
+  recent: TaskShortcut[];
+}
+
+// Hour targets
+export interface HourTargetSettings {
+  useSchedule: boolean; // Take targets from the employee's working schedule in Odoo
+  dailyHours: number; // Manual target for Monday to Friday
+  weeklyHours: number; // Manual target for the week
+}
+
+// Attendance and timer coupling
+export type CouplingMode = "off" | "ask" | "always";
+
+export interface AttendanceTimerPolicy {
+  checkInOnTimerStart: CouplingMode; // Starting a timer while checked out
+  stopTimerOnCheckOut: CouplingMode; // Checking out while a timer runs
+}
+
+export interface WorkingSchedule {
+  name: string;
+  weeks: number[][]; // Hours per day, Monday first; two entries for two-week calendars
+}
+
+export interface HourTargets {
+  source: "manual" | "schedule";
+  scheduleName: string | null;
+  daily: number;
+  weekly: number;
+}
+
+export interface HourProgress {
+  targets: HourTargets;
+  loggedToday: number; // Saved timesheet hours; a running timer counts once stopped
+  loggedWeek: number;
+  attendedToday: number | null; // Null when attendance is unavailable
+}
+
 export interface CachedData<T> {
   data: T;
   timestamp: number;
 }
+
+// Offline queue
+// Actions made while Odoo was unreachable, replayed in order once it is back
+interface TaskLabel {
+  projectId: number;
+  projectName: string | null; // Names are only for display and may not be known offline
+  taskId: number;
+  taskName: string | null;
+}
+
+export type PendingActionInput =
+  | ({ type: "start_timer"; description: string | null } & TaskLabel)
+  | { type: "stop_timer"; timerId: number | null; description: string | null } // null: the timer started offline
+  | ({ type: "log_time"; date: string; hours: number; description: string } & TaskLabel)
+  | { type: "check_in" }
+  | { type: "check_out" };
+
+export type PendingAction = PendingActionInput & {
+  id: string;
+  at: string; // ISO timestamp of when the action really happened
+  conflict: string | null; // Why replaying it last failed; later actions wait until it syncs or is discarded
+};
+
+export interface SyncResult {
+  synced: number;
+  remaining: number;
+  conflict: PendingAction | null;
+  offline: boolean; // Odoo was still unreachable
+}
@@ -0,0 +1,49 @@
+/**
+ * Odoo server version detection, for picking endpoints that differ between releases
+ */
+
+import { getAuthenticatedClient } from "./auth";
+import { CachedData, ServerVersion } from "./types";
+import { getStorage } from "./storage";
+import { profileKey } from "./profiles";
+
+const VERSION_CACHE_KEY = "odoo_server_version";
+const VERSION_CACHE_TTL = 24 * 60 * 60 * 1000; // 1 day - upgrades are rare
+
+/**
+ * Get the server's version from the external API's common.version
+ * Works with both web sessions and API keys, and doesn't need a login
+ */
+export async function getServerVersion(): Promise<ServerVersion> {
+  const cacheKey = await profileKey(VERSION_CACHE_KEY);
+  const raw = await getStorage().getItem(cacheKey);
+  if (raw) {
+    try {
+      const cached = JSON.parse(raw) as CachedData<ServerVersion>;
+      if (Date.now() - cached.timestamp < VERSION_CACHE_TTL) {
+        return cached.data;
+      }
+    } catch {
+      // Fall through and fetch again
+    }
+  }
+
+  const client = await getAuthenticatedClient();
+  const info = await client.request<{ server_version: string; server_version_info: (number | string)[] }>(
+    "/jsonrpc",
+    { service: "common", method: "version", args: [] },
+    { idempotent: true },
+  );
+
+  // SaaS builds report versions like "saas~17.2", so read the number from server_version_info
+  const version: ServerVersion = {
+    version: info.server_version,
+    major: Number(info.server_version_info?.[0]) || parseInt(info.server_version.replace(/^saas~/, "")) || 0,
+  };
+  console.log(`[Version] Server version ${version.version}`);
+
+  const cached: CachedData<ServerVersion> = { data: version, timestamp: Date.now() };
+  await getStorage().setItem(cacheKey, JSON.stringify(cached));
+
+  return version;
+}
@@ -0,0 +1,19 @@
+/**
+ * Shared handling for actions made while Odoo is unreachable
+ */
+
+import { showToast, Toast } from "@raycast/api";
+import { PendingActionInput, queuePendingAction } from "./odoo";
+
+/**
+ * Keep an action that failed because Odoo is unreachable, to be synced from the menu bar later
+ */
+export async function saveForLater(input: PendingActionInput, what: string): Promise<void> {
+  await queuePendingAction(input);
+
+  await showToast({
+    style: Toast.Style.Success,
+    title: "Saved Offline",
+    message: `${what} will sync once Odoo is reachable`,
+  });
+}
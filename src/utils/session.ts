@@ -0,0 +1,25 @@
+/**
+ * Shared handling for sessions that could not be renewed
+ */
+
+import { showToast, Toast, launchCommand, LaunchType } from "@raycast/api";
+
+let loginPrompted = false;
+
+/**
+ * Tell the user their session is gone and open the login screen.
+ * The client has already tried to re-authenticate silently by the time this runs.
+ * The login screen is only opened once per command run so periodic refreshes don't keep reopening it.
+ */
+export async function handleSessionExpired(): Promise<void> {
+  await showToast({
+    style: Toast.Style.Failure,
+    title: "Session Expired",
+    message: "Please login again",
+  });
+
+  if (!loginPrompted) {
+    loginPrompted = true;
+    await launchCommand({ name: "login", type: LaunchType.UserInitiated });
+  }
+}
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { checkIn, checkOut, getAttendanceStatus, login, loginWithApiKey, toggleCheckInOut } from "../src/utils/odoo";
+import { MockOdooServer } from "./mock-server";
+import { BASE_URL, setupServer, testClock } from "./helpers";
+
+describe("attendance", () => {
+  let server: MockOdooServer;
+  let clock: ReturnType<typeof testClock>;
+
+  describe.each(["17.0", "16.0"])("on Odoo %s", (serverVersion) => {
+    beforeEach(async () => {
+      clock = testClock("2026-10-19T08:00:00Z");
+      ({ server } = setupServer({ now: clock.now, serverVersion }));
+      await login(BASE_URL, "demo", "demo");
+    });
+
+    it("checks in and out", async () => {
+      const checkedIn = await checkIn();
+      expect(checkedIn.changed).toBe(true);
+      expect(checkedIn.state.attendance_state).toBe("checked_in");
+
+      clock.advance(90);
+      const checkedOut = await checkOut();
+      expect(checkedOut.changed).toBe(true);
+      expect(checkedOut.state).toMatchObject({ attendance_state: "checked_out", hours_today: 1.5 });
+
+      expect(server.attendances).toEqual([
+        expect.objectContaining({ check_in: "2026-10-19 08:00:00", check_out: "2026-10-19 09:30:00" }),
+      ]);
+    });
+
+    it("does nothing when already in the requested state", async () => {
+      const result = await checkOut();
+
+      expect(result.changed).toBe(false);
+      expect(server.attendances).toHaveLength(0);
+    });
+
+    it("toggles between checked in and checked out", async () => {
+      expect((await toggleCheckInOut()).attendance_state).toBe("checked_in");
+      expect((await toggleCheckInOut()).attendance_state).toBe("checked_out");
+      expect((await getAttendanceStatus(false)).attendance_state).toBe("checked_out");
+    });
+  });
+
+  it("writes hr.attendance directly with an API key", async () => {
+    ({ server } = setupServer({ users: [{ login: "demo", password: "demo", apiKeys: ["key-1"] }] }));
+    await loginWithApiKey(BASE_URL, "demo", "key-1");
+
+    expect((await checkIn()).state.attendance_state).toBe("checked_in");
+    expect((await checkOut()).state.attendance_state).toBe("checked_out");
+
+    // API key clients can't call the web controllers
+    expect(server.requestsTo("/hr_attendance/systray_check_in_out")).toHaveLength(0);
+    expect(server.attendances).toHaveLength(1);
+    expect(server.attendances[0].check_out).not.toBe(false);
+  });
+
+  it("records a check-in that happened earlier", async () => {
+    clock = testClock("2026-10-19T08:00:00Z");
+    ({ server } = setupServer({ now: clock.now }));
+    await login(BASE_URL, "demo", "demo");
+
+    await checkIn(new Date("2026-10-19T07:15:00Z"));
+
+    expect(server.attendances).toEqual([
+      expect.objectContaining({ check_in: "2026-10-19 07:15:00", check_out: false }),
+    ]);
+  });
+});
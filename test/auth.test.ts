@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getAuthenticatedClient,
+  getStoredSession,
+  hasActiveSession,
+  login,
+  loginWithApiKey,
+  logout,
+  validateSession,
+} from "../src/utils/odoo";
+import { MockOdooServer } from "./mock-server";
+import { BASE_URL, setupServer } from "./helpers";
+
+describe("login", () => {
+  let server: MockOdooServer;
+
+  beforeEach(() => {
+    ({ server } = setupServer({
+      users: [{ login: "demo", password: "demo", name: "Demo User", tz: "Europe/Brussels", apiKeys: ["key-1"] }],
+    }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("logs in with a password and keeps the session", async () => {
+    const session = await login(BASE_URL, "demo", "demo");
+
+    expect(session.username).toBe("demo");
+    expect(session.employeeName).toBe("Demo User");
+    expect(session.tz).toBe("Europe/Brussels");
+    expect(await hasActiveSession()).toBe(true);
+    expect(await validateSession()).toBe(true);
+  });
+
+  it("rejects a wrong password without saving a session", async () => {
+    await expect(login(BASE_URL, "demo", "nope")).rejects.toThrow();
+    expect(await getStoredSession()).toBeNull();
+  });
+
+  it("never logs the session ID or cookies", async () => {
+    const log = vi.spyOn(console, "log");
+
+    const session = await login(BASE_URL, "demo", "demo");
+    await getStoredSession();
+    await (await getAuthenticatedClient()).callKw("project.project", "name_search", [""]);
+
+    const sessionId = session.authType === "password" ? session.sessionId : "";
+    expect(sessionId).toMatch(/^mock-session-/);
+    expect(log).toHaveBeenCalled();
+    expect(log.mock.calls.flat().join("\n")).not.toContain(sessionId);
+  });
+
+  it("logs in with an API key", async () => {
+    const session = await loginWithApiKey(BASE_URL, "demo", "key-1");
+
+    expect(session.authType).toBe("api_key");
+    expect(session.userId).toBe(server.users[0].uid);
+    expect(await validateSession()).toBe(true);
+  });
+
+  it("never logs the API key", async () => {
+    const log = vi.spyOn(console, "log");
+
+    await loginWithApiKey(BASE_URL, "demo", "key-1");
+    await getStoredSession();
+    await (await getAuthenticatedClient()).callKw("project.project", "name_search", [""]);
+
+    expect(log).toHaveBeenCalled();
+    expect(log.mock.calls.flat().join("\n")).not.toContain("key-1");
+  });
+
+  it("logs in again with saved credentials when the server session expires", async () => {
+    await login(BASE_URL, "demo", "demo", { rememberCredentials: true });
+    server.expireSessions();
+
+    const client = await getAuthenticatedClient();
+    await expect(client.callKw("project.project", "name_search", [""])).resolves.toHaveLength(2);
+    expect(server.requestsTo("/web/session/authenticate")).toHaveLength(2);
+  });
+
+  it("forgets the session on logout", async () => {
+    await login(BASE_URL, "demo", "demo");
+    await logout();
+
+    expect(await hasActiveSession()).toBe(false);
+  });
+});
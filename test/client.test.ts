@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  NetworkError,
+  OdooApiError,
+  OdooClient,
+  OdooClientOptions,
+  RequestTimeoutError,
+  login,
+} from "../src/utils/odoo";
+import { MockOdooServer } from "./mock-server";
+import { BASE_URL, setupServer } from "./helpers";
+
+const CALL_KW = "/web/dataset/call_kw";
+
+describe("client retries and timeouts", () => {
+  let server: MockOdooServer;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    ({ server } = setupServer());
+    const session = await login(BASE_URL, "demo", "demo");
+    sessionId = session.authType === "password" ? session.sessionId : "";
+  });
+
+  // Short delays so retries don't slow the tests down
+  function makeClient(options: OdooClientOptions = {}) {
+    return new OdooClient(BASE_URL, sessionId, [], {
+      transport: server,
+      retryDelayMs: 1,
+      maxRetryDelayMs: 1,
+      ...options,
+    });
+  }
+
+  function callsTo(method: string) {
+    return server.requestsTo(CALL_KW).filter((request) => request.params.method === method);
+  }
+
+  function readUser(client: OdooClient) {
+    return client.callKw<{ id: number }[]>("res.users", "read", [[server.users[0].uid], ["name"]]);
+  }
+
+  it("retries a read after a gateway error", async () => {
+    server.failNextWithStatus(CALL_KW, 502, "Bad Gateway");
+
+    await expect(readUser(makeClient())).resolves.toEqual([expect.objectContaining({ name: "demo" })]);
+    expect(callsTo("read")).toHaveLength(2);
+  });
+
+  it("retries a read after a network error", async () => {
+    server.failNextWithNetworkError(CALL_KW);
+
+    await expect(readUser(makeClient())).resolves.toHaveLength(1);
+    expect(callsTo("read")).toHaveLength(2);
+  });
+
+  it("gives up on a read after the configured retries", async () => {
+    server.failNextWithNetworkError(CALL_KW).failNextWithNetworkError(CALL_KW).failNextWithNetworkError(CALL_KW);
+
+    await expect(readUser(makeClient({ maxRetries: 2 }))).rejects.toBeInstanceOf(NetworkError);
+    expect(callsTo("read")).toHaveLength(3);
+  });
+
+  it("does not retry a gateway error that isn't temporary", async () => {
+    server.failNextWithStatus(CALL_KW, 500, "Internal Server Error");
+
+    await expect(readUser(makeClient())).rejects.toBeInstanceOf(OdooApiError);
+    expect(callsTo("read")).toHaveLength(1);
+  });
+
+  it("sends create only once", async () => {
+    server.failNextWithNetworkError(CALL_KW);
+
+    const create = makeClient().callKw("account.analytic.line", "create", [{ project_id: 1, unit_amount: 1 }]);
+
+    await expect(create).rejects.toBeInstanceOf(NetworkError);
+    expect(callsTo("create")).toHaveLength(1);
+    expect(server.lines.size).toBe(0);
+  });
+
+  it("sends action_timer_stop only once", async () => {
+    const client = makeClient();
+    const timerId = await client.callKw<number>("account.analytic.line", "action_start_new_timesheet_timer", [{}]);
+    server.failNextWithStatus(CALL_KW, 502, "Bad Gateway");
+
+    await expect(client.callKw("account.analytic.line", "action_timer_stop", [timerId])).rejects.toBeInstanceOf(
+      OdooApiError,
+    );
+    expect(callsTo("action_timer_stop")).toHaveLength(1);
+    expect(server.lines.get(timerId)?.timer_start).not.toBe(false);
+  });
+
+  it("aborts a hung request after the timeout", async () => {
+    server.failNextWithHang(CALL_KW);
+
+    const started = Date.now();
+    await expect(readUser(makeClient({ timeoutMs: 50, maxRetries: 0 }))).rejects.toBeInstanceOf(RequestTimeoutError);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("retries a read that timed out", async () => {
+    server.failNextWithHang(CALL_KW);
+
+    await expect(readUser(makeClient({ timeoutMs: 50 }))).resolves.toHaveLength(1);
+    expect(callsTo("read")).toHaveLength(2);
+  });
+});
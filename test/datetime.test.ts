@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  fromZonedTime,
+  getTimeZoneOffset,
+  parseOdooDatetime,
+  setUserTimeZone,
+  startOfUserDay,
+  toOdooDate,
+  toOdooDatetime,
+  toUserDate,
+  userToday,
+} from "../src/utils/odoo";
+
+// Hours between the start of a calendar day and the start of the next one
+function dayLength(year: number, month: number, day: number, timeZone: string): number {
+  const start = startOfUserDay(new Date(year, month - 1, day), timeZone);
+  const end = startOfUserDay(new Date(year, month - 1, day + 1), timeZone);
+  return (end.getTime() - start.getTime()) / 3600000;
+}
+
+describe("Odoo datetimes", () => {
+  it("reads naive datetimes as UTC", () => {
+    expect(parseOdooDatetime("2026-10-25 01:30:00").toISOString()).toBe("2026-10-25T01:30:00.000Z");
+    expect(parseOdooDatetime("2026-10-25T03:30:00+02:00").toISOString()).toBe("2026-10-25T01:30:00.000Z");
+  });
+
+  it("writes instants as naive UTC", () => {
+    expect(toOdooDatetime(new Date("2026-03-29T01:30:00Z"))).toBe("2026-03-29 01:30:00");
+  });
+});
+
+describe.each([
+  // Northern hemisphere: summer time from late March to late October
+  {
+    timeZone: "Europe/Brussels",
+    standard: 60,
+    summer: 120,
+    springForward: { date: [2026, 3, 29], skipped: 2, gapResolvesTo: "2026-03-29T01:30:00.000Z" },
+    fallBack: { date: [2026, 10, 25], repeated: 2, firstOccurrence: "2026-10-25T00:30:00.000Z" },
+  },
+  // Southern hemisphere: summer time from early October to early April
+  {
+    timeZone: "Australia/Sydney",
+    standard: 600,
+    summer: 660,
+    springForward: { date: [2026, 10, 4], skipped: 2, gapResolvesTo: "2026-10-03T16:30:00.000Z" },
+    fallBack: { date: [2026, 4, 5], repeated: 2, firstOccurrence: "2026-04-04T15:30:00.000Z" },
+  },
+])("DST in $timeZone", ({ timeZone, standard, summer, springForward, fallBack }) => {
+  const [springYear, springMonth, springDay] = springForward.date;
+  const [fallYear, fallMonth, fallDay] = fallBack.date;
+
+  it("knows the offset on both sides of each change", () => {
+    const beforeSpring = fromZonedTime(springYear, springMonth, springDay, 0, 0, 0, timeZone);
+    const afterSpring = fromZonedTime(springYear, springMonth, springDay, 12, 0, 0, timeZone);
+    expect(getTimeZoneOffset(beforeSpring, timeZone)).toBe(standard);
+    expect(getTimeZoneOffset(afterSpring, timeZone)).toBe(summer);
+
+    const beforeFall = fromZonedTime(fallYear, fallMonth, fallDay, 0, 0, 0, timeZone);
+    const afterFall = fromZonedTime(fallYear, fallMonth, fallDay, 12, 0, 0, timeZone);
+    expect(getTimeZoneOffset(beforeFall, timeZone)).toBe(summer);
+    expect(getTimeZoneOffset(afterFall, timeZone)).toBe(standard);
+  });
+
+  it("moves a time in the spring-forward gap past the change", () => {
+    const skipped = fromZonedTime(springYear, springMonth, springDay, springForward.skipped, 30, 0, timeZone);
+
+    expect(skipped.toISOString()).toBe(springForward.gapResolvesTo);
+    // 02:30 doesn't exist that night; it becomes 03:30 summer time
+    expect(getTimeZoneOffset(skipped, timeZone)).toBe(summer);
+  });
+
+  it("resolves the repeated fall-back hour to its first occurrence", () => {
+    const repeated = fromZonedTime(fallYear, fallMonth, fallDay, fallBack.repeated, 30, 0, timeZone);
+
+    expect(repeated.toISOString()).toBe(fallBack.firstOccurrence);
+    expect(getTimeZoneOffset(repeated, timeZone)).toBe(summer);
+  });
+
+  it("round-trips wall-clock times away from the changes", () => {
+    const noon = fromZonedTime(springYear, springMonth, springDay + 1, 12, 0, 0, timeZone);
+
+    expect(toOdooDate(toUserDate(noon, timeZone))).toBe(
+      toOdooDate(new Date(springYear, springMonth - 1, springDay + 1)),
+    );
+    expect(getTimeZoneOffset(noon, timeZone)).toBe(summer);
+  });
+
+  it("makes the spring-forward day 23 hours and the fall-back day 25 hours long", () => {
+    expect(dayLength(springYear, springMonth, springDay, timeZone)).toBe(23);
+    expect(dayLength(fallYear, fallMonth, fallDay, timeZone)).toBe(25);
+    expect(dayLength(springYear, springMonth, springDay + 7, timeZone)).toBe(24);
+  });
+
+  it("puts instants just before and after midnight on the right day", () => {
+    const nextDay = startOfUserDay(new Date(fallYear, fallMonth - 1, fallDay + 1), timeZone);
+
+    expect(toOdooDate(toUserDate(new Date(nextDay.getTime() - 1000), timeZone))).toBe(
+      toOdooDate(new Date(fallYear, fallMonth - 1, fallDay)),
+    );
+    expect(toOdooDate(toUserDate(nextDay, timeZone))).toBe(toOdooDate(new Date(fallYear, fallMonth - 1, fallDay + 1)));
+  });
+});
+
+describe("day boundaries", () => {
+  afterEach(() => {
+    setUserTimeZone(null);
+    vi.useRealTimers();
+  });
+
+  it("starts the day at 01:00 where DST skips midnight", () => {
+    // Chile moves its clocks forward at midnight, so 6 September 2026 has no 00:00
+    const start = startOfUserDay(new Date(2026, 8, 6), "America/Santiago");
+
+    expect(start.toISOString()).toBe("2026-09-06T04:00:00.000Z");
+    expect(getTimeZoneOffset(start, "America/Santiago")).toBe(-180);
+  });
+
+  it("follows the user's timezone for today, not the system one", () => {
+    vi.useFakeTimers();
+    // 23:30 UTC on the night summer time starts in Sydney is already the next morning there
+    vi.setSystemTime(new Date("2026-10-03T23:30:00Z"));
+
+    setUserTimeZone("Australia/Sydney");
+    expect(toOdooDate(userToday())).toBe("2026-10-04");
+
+    setUserTimeZone("Europe/Brussels");
+    expect(toOdooDate(userToday())).toBe("2026-10-04");
+
+    setUserTimeZone("America/New_York");
+    expect(toOdooDate(userToday())).toBe("2026-10-03");
+  });
+});
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createTimesheetEntry,
+  getTimesheetEntries,
+  getTimesheetEntryChanges,
+  login,
+  parseOdooDate,
+  updateTimesheetEntry,
+} from "../src/utils/odoo";
+import { MockOdooServer } from "./mock-server";
+import { BASE_URL, setupServer } from "./helpers";
+
+describe("timesheet entries", () => {
+  let server: MockOdooServer;
+
+  beforeEach(async () => {
+    ({ server } = setupServer());
+    await login(BASE_URL, "demo", "demo");
+  });
+
+  async function editedEntry(hours: number) {
+    const day = parseOdooDate("2026-10-19");
+    const id = await createTimesheetEntry(1, 10, day, hours, "Review");
+    const entries = await getTimesheetEntries({ from: day, to: day });
+    return { id, entry: entries.find((entry) => entry.id === id)! };
+  }
+
+  it("only writes the description when the hours were left as shown", async () => {
+    // Odoo's rounding can leave hours that are not a whole minute
+    const { id, entry } = await editedEntry(1.1234);
+
+    const changes = getTimesheetEntryChanges(entry, {
+      projectId: 1,
+      taskId: 10,
+      hours: 67 / 60, // "1:07", as the form pre-fills it
+      description: "Code review",
+    });
+    await updateTimesheetEntry(id, changes);
+
+    expect(changes).toEqual({ description: "Code review" });
+    expect(server.lines.get(id)).toMatchObject({ name: "Code review", unit_amount: 1.1234 });
+  });
+
+  it("writes the hours and task when they change", async () => {
+    const { id, entry } = await editedEntry(1);
+
+    const changes = getTimesheetEntryChanges(entry, { projectId: 1, taskId: 11, hours: 1.5, description: "Review" });
+    await updateTimesheetEntry(id, changes);
+
+    expect(changes).toEqual({ taskId: 11, hours: 1.5 });
+    expect(server.lines.get(id)).toMatchObject({ task_id: 11, unit_amount: 1.5, name: "Review" });
+  });
+
+  it("sends nothing when nothing changed", async () => {
+    const { id, entry } = await editedEntry(1);
+    const writes = () => server.requestsTo("/web/dataset/call_kw").filter((r) => r.params.method === "write");
+
+    await updateTimesheetEntry(id, getTimesheetEntryChanges(entry, { ...entry, projectId: 1, taskId: 10 }));
+
+    expect(writes()).toHaveLength(0);
+  });
+});
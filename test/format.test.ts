@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DateRangeOption, formatDurationInput, getDateRange, parseDuration, toOdooDate } from "../src/utils/odoo";
+
+describe("duration fields", () => {
+  it("parses the durations people type", () => {
+    expect(parseDuration("1:30")).toBe(1.5);
+    expect(parseDuration("1,5")).toBe(1.5);
+    expect(parseDuration("90m")).toBe(1.5);
+    expect(parseDuration("1h 30m")).toBe(1.5);
+    expect(parseDuration("soon")).toBeNull();
+  });
+
+  it("pre-fills hours as h:mm", () => {
+    expect(formatDurationInput(1.5)).toBe("1:30");
+    expect(formatDurationInput(0.25)).toBe("0:15");
+    expect(formatDurationInput(40)).toBe("40:00");
+    expect(formatDurationInput(0)).toBe("0:00");
+  });
+
+  it("round-trips through parseDuration to the minute", () => {
+    for (const hours of [0, 0.1, 0.75, 1.5, 7.6, 38.5]) {
+      expect(parseDuration(formatDurationInput(hours))).toBeCloseTo(Math.round(hours * 60) / 60, 10);
+    }
+  });
+});
+
+describe("date ranges", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function rangeOn(today: string, option: DateRangeOption): [string, string] {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(`${today}T12:00:00Z`));
+    const { from, to } = getDateRange(option);
+    return [toOdooDate(from), toOdooDate(to)];
+  }
+
+  it("covers the current week and month up to today", () => {
+    expect(rangeOn("2026-10-21", "this_week")).toEqual(["2026-10-19", "2026-10-21"]);
+    expect(rangeOn("2026-10-21", "this_month")).toEqual(["2026-10-01", "2026-10-21"]);
+  });
+
+  it("covers whole past weeks and months", () => {
+    expect(rangeOn("2026-10-21", "last_week")).toEqual(["2026-10-12", "2026-10-18"]);
+    expect(rangeOn("2026-03-10", "last_month")).toEqual(["2026-02-01", "2026-02-28"]);
+    expect(rangeOn("2026-01-05", "last_month")).toEqual(["2025-12-01", "2025-12-31"]);
+    expect(rangeOn("2026-10-21", "last_30_days")).toEqual(["2026-09-22", "2026-10-21"]);
+  });
+});
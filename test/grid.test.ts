@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getTimesheetGrid, login, parseOdooDate, setTimesheetGridCell } from "../src/utils/odoo";
+import { MockOdooServer } from "./mock-server";
+import { BASE_URL, setupServer, testClock } from "./helpers";
+
+describe("timesheet grid", () => {
+  let server: MockOdooServer;
+
+  beforeEach(async () => {
+    ({ server } = setupServer({ now: testClock("2026-10-21T09:00:00Z").now }));
+    await login(BASE_URL, "demo", "demo");
+  });
+
+  it("sets a cell on another day of the row without touching the first", async () => {
+    const week = parseOdooDate("2026-10-19");
+    await setTimesheetGridCell(1, 10, parseOdooDate("2026-10-19"), 2);
+
+    // The form opened on Monday, then the day was switched to Wednesday
+    await setTimesheetGridCell(1, 10, parseOdooDate("2026-10-21"), 1.5);
+
+    const grid = await getTimesheetGrid(week);
+    expect(grid.rows).toHaveLength(1);
+    expect(grid.rows[0].hours).toEqual([2, 0, 1.5, 0, 0, 0, 0]);
+    expect([...server.lines.values()].map((line) => [line.date, line.unit_amount])).toEqual([
+      ["2026-10-19", 2],
+      ["2026-10-21", 1.5],
+    ]);
+  });
+
+  it("updates the existing line when a day is set again", async () => {
+    await setTimesheetGridCell(1, 10, parseOdooDate("2026-10-21"), 1.5);
+    await setTimesheetGridCell(1, 10, parseOdooDate("2026-10-21"), 0.75);
+
+    expect([...server.lines.values()].map((line) => [line.date, line.unit_amount])).toEqual([["2026-10-21", 0.75]]);
+  });
+});
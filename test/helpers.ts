@@ -0,0 +1,64 @@
+/**
+ * Shared setup for tests against the mock Odoo server
+ */
+
+import { initCredentialStorage, initStorage, initTransport, StorageProvider } from "../src/utils/odoo";
+import { MockOdooServer, MockOdooServerOptions } from "./mock-server";
+
+export const BASE_URL = "http://odoo.test";
+
+/**
+ * In-memory storage provider, like Raycast's LocalStorage
+ */
+export function memoryStorage(): StorageProvider & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * A clock the mock server reads, moved forward by the test
+ */
+export function testClock(start: string) {
+  let now = new Date(start);
+  return {
+    now: () => now,
+    advance: (minutes: number) => {
+      now = new Date(now.getTime() + minutes * 60000);
+    },
+  };
+}
+
+/**
+ * Start a mock server with one user, two projects and a few tasks, and route all requests to it
+ */
+export function setupServer(options: MockOdooServerOptions = {}) {
+  const storage = memoryStorage();
+  initStorage(storage);
+  initCredentialStorage(memoryStorage());
+
+  const server = new MockOdooServer({
+    users: [{ login: "demo", password: "demo" }],
+    projects: [
+      { id: 1, name: "Website" },
+      { id: 2, name: "Support" },
+    ],
+    tasks: [
+      { id: 10, name: "Design", projectId: 1 },
+      { id: 11, name: "Build", projectId: 1 },
+      { id: 20, name: "Tickets", projectId: 2 },
+    ],
+    ...options,
+  });
+  initTransport(server);
+
+  return { server, storage };
+}
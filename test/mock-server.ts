@@ -0,0 +1,1049 @@
+/**
+ * Scriptable in-process fake of an Odoo server, implementing OdooTransport.
+ * Answers the endpoints this package uses so auth, timesheet and attendance flows
+ * can be exercised without a real Odoo instance.
+ *
+ * Usage:
+ *   const server = new MockOdooServer({ users: [{ login: "demo", password: "demo" }] });
+ *   initTransport(server);
+ */
+
+import { JsonRpcRequest } from "../src/utils/odoo/types";
+import { OdooTransport, TransportRequest, TransportResponse } from "../src/utils/odoo/transport";
+import { parseOdooDatetime, toOdooDatetime } from "../src/utils/odoo/datetime";
+
+export interface MockOdooUser {
+  uid: number;
+  login: string;
+  password: string;
+  name: string;
+  companyId: number;
+  employeeId: number;
+  apiKeys: string[];
+  totpCode?: string; // When set, password login requires this code as a second step
+  isAdmin: boolean; // Only admins may read system parameters
+  tz: string | false; // Timezone preference, false when unset like a fresh Odoo user
+}
+
+export interface MockAnalyticLine {
+  id: number;
+  name: string | false;
+  project_id: number | false;
+  task_id: number | false;
+  employee_id: number | false;
+  date: string;
+  unit_amount: number;
+  timer_start: string | false;
+  timer_pause?: string | false;
+  validated?: boolean;
+  timesheet_invoice_id?: number | false;
+}
+
+export interface MockAttendance {
+  id: number;
+  employee_id: number;
+  check_in: string;
+  check_out: string | false;
+}
+
+export interface MockOvertime {
+  id: number;
+  employee_id: number;
+  date: string;
+  duration: number;
+  adjustment: boolean;
+}
+
+export interface MockOdooServerOptions {
+  databases?: string[];
+  users?: Array<Partial<MockOdooUser> & Pick<MockOdooUser, "login" | "password">>;
+  projects?: Array<{ id: number; name: string }>;
+  tasks?: Array<{ id: number; name: string; projectId: number }>;
+  timesheetMinDuration?: number; // Minutes, like timesheet_grid.timesheet_min_duration
+  timesheetRounding?: number; // Minutes, like timesheet_grid.timesheet_rounding
+  workingHours?: number[] | null; // Hours per day of the employees' schedule, Monday first; null for none
+  serverVersion?: string; // Defaults to "17.0"; before 17 attendance uses attendance_manual instead of the systray routes
+  now?: () => Date;
+}
+
+export interface MockRequestContext {
+  server: MockOdooServer;
+  user: MockOdooUser | null;
+  cookies: Record<string, string>;
+}
+
+export type MockRouteHandler = (params: Record<string, unknown>, context: MockRequestContext) => unknown;
+
+export interface MockPageResponse {
+  status: number;
+  body?: string;
+  location?: string;
+}
+
+export type MockPageHandler = (
+  form: Record<string, string>,
+  context: MockRequestContext,
+) => MockPageResponse | Promise<MockPageResponse>;
+
+export type MockCallKwHandler = (
+  args: unknown[],
+  kwargs: Record<string, unknown>,
+  context: MockRequestContext,
+) => unknown;
+
+export interface MockRecordedRequest {
+  endpoint: string;
+  params: Record<string, unknown>;
+  cookie: string | null;
+}
+
+/**
+ * Error thrown from a handler to produce a JSON-RPC error response
+ */
+export class MockOdooFault extends Error {
+  constructor(
+    message: string,
+    public code = 200,
+    public debug = "",
+  ) {
+    super(message);
+    this.name = "MockOdooFault";
+  }
+}
+
+type ScriptedFailure =
+  | { kind: "http"; status: number; statusText: string }
+  | { kind: "network"; message: string }
+  | { kind: "hang" };
+
+type DomainLeaf = [string, string, unknown];
+
+/**
+ * Evaluate an Odoo domain against a plain record (implicit AND of leaves only)
+ */
+export function matchesDomain(record: Record<string, unknown>, domain: unknown[]): boolean {
+  return domain.every((term) => {
+    if (term === "&") return true;
+    if (!Array.isArray(term)) {
+      throw new MockOdooFault(`Unsupported domain operator ${String(term)}`);
+    }
+
+    const [field, operator, value] = term as DomainLeaf;
+    const actual = record[field] ?? false;
+    switch (operator) {
+      case "=":
+        return actual === value;
+      case "!=":
+        return actual !== value;
+      case ">":
+        return (actual as number | string) > (value as number | string);
+      case ">=":
+        return (actual as number | string) >= (value as number | string);
+      case "<":
+        return (actual as number | string) < (value as number | string);
+      case "<=":
+        return (actual as number | string) <= (value as number | string);
+      case "in":
+        return (value as unknown[]).includes(actual);
+      case "not in":
+        return !(value as unknown[]).includes(actual);
+      default:
+        throw new MockOdooFault(`Unsupported domain operator ${operator}`);
+    }
+  });
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(";")) {
+    const [name, ...rest] = part.trim().split("=");
+    if (name) {
+      cookies[name] = rest.join("=");
+    }
+  }
+  return cookies;
+}
+
+function makeResponse(
+  status: number,
+  body: string,
+  headers: Record<string, string | null> = {},
+  statusText = status < 400 ? "OK" : "Error",
+): TransportResponse {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText,
+    headers: {
+      get: (name: string) => headers[name.toLowerCase()] ?? null,
+    },
+    json: async () => JSON.parse(body),
+    text: async () => body,
+  };
+}
+
+function jsonResponse(body: unknown, setCookie: string | null = null): TransportResponse {
+  return makeResponse(200, JSON.stringify(body), { "set-cookie": setCookie });
+}
+
+export class MockOdooServer implements OdooTransport {
+  readonly databases: string[];
+  readonly users: MockOdooUser[];
+  readonly projects: Array<{ id: number; name: string }>;
+  readonly tasks: Array<{ id: number; name: string; projectId: number }>;
+  readonly timesheetMinDuration: number;
+  readonly timesheetRounding: number;
+  readonly workingHours: number[] | null;
+  readonly serverVersion: string;
+  readonly lines = new Map<number, MockAnalyticLine>();
+  readonly attendances: MockAttendance[] = [];
+  readonly overtimes: MockOvertime[] = [];
+  readonly requests: MockRecordedRequest[] = [];
+
+  private sessions = new Map<string, number>();
+  private pendingTotpSessions = new Map<string, number>();
+  private routes = new Map<string, MockRouteHandler>();
+  private pageRoutes = new Map<string, MockPageHandler>();
+  private callKwHandlers = new Map<string, MockCallKwHandler>();
+  private failures = new Map<string, ScriptedFailure[]>();
+  private nextId = 1;
+  private now: () => Date;
+
+  constructor(options: MockOdooServerOptions = {}) {
+    this.databases = options.databases ?? ["odoo"];
+    this.users = (options.users ?? []).map((user, index) => ({
+      uid: user.uid ?? index + 2,
+      login: user.login,
+      password: user.password,
+      name: user.name ?? user.login,
+      companyId: user.companyId ?? 1,
+      employeeId: user.employeeId ?? index + 1,
+      apiKeys: user.apiKeys ?? [],
+      totpCode: user.totpCode,
+      isAdmin: user.isAdmin ?? false,
+      tz: user.tz ?? false,
+    }));
+    this.projects = options.projects ?? [];
+    this.tasks = options.tasks ?? [];
+    this.timesheetMinDuration = options.timesheetMinDuration ?? 0;
+    this.timesheetRounding = options.timesheetRounding ?? 0;
+    this.workingHours = options.workingHours === undefined ? [8, 8, 8, 8, 8, 0, 0] : options.workingHours;
+    this.serverVersion = options.serverVersion ?? "17.0";
+    this.now = options.now ?? (() => new Date());
+
+    this.registerDefaultRoutes();
+    this.registerDefaultCallKw();
+  }
+
+  /**
+   * Override or add a handler for a JSON-RPC endpoint
+   */
+  on(endpoint: string, handler: MockRouteHandler): this {
+    this.routes.set(endpoint, handler);
+    return this;
+  }
+
+  /**
+   * Override or add a handler for an HTML page (GET, or form POST)
+   */
+  onPage(endpoint: string, handler: MockPageHandler): this {
+    this.pageRoutes.set(endpoint, handler);
+    return this;
+  }
+
+  /**
+   * Override or add a handler for a model method called through /web/dataset/call_kw
+   */
+  onCallKw(model: string, method: string, handler: MockCallKwHandler): this {
+    this.callKwHandlers.set(`${model}.${method}`, handler);
+    return this;
+  }
+
+  /**
+   * Make the next request to an endpoint fail with an HTTP status
+   */
+  failNextWithStatus(endpoint: string, status: number, statusText = "Error"): this {
+    this.queueFailure(endpoint, { kind: "http", status, statusText });
+    return this;
+  }
+
+  /**
+   * Make the next request to an endpoint fail as if the connection dropped
+   */
+  failNextWithNetworkError(endpoint: string, message = "socket hang up"): this {
+    this.queueFailure(endpoint, { kind: "network", message });
+    return this;
+  }
+
+  /**
+   * Make the next request to an endpoint never answer, as a hung Odoo worker would.
+   * The request only settles once the client aborts it.
+   */
+  failNextWithHang(endpoint: string): this {
+    this.queueFailure(endpoint, { kind: "hang" });
+    return this;
+  }
+
+  /**
+   * Drop every active session, as Odoo does when sessions are rotated
+   */
+  expireSessions(): void {
+    this.sessions.clear();
+  }
+
+  /**
+   * Requests sent to a given endpoint, in order
+   */
+  requestsTo(endpoint: string): MockRecordedRequest[] {
+    return this.requests.filter((r) => r.endpoint === endpoint);
+  }
+
+  async send(url: string, request: TransportRequest): Promise<TransportResponse> {
+    const endpoint = new URL(url).pathname;
+    const isJsonRpc = request.headers["Content-Type"] === "application/json";
+    const body: JsonRpcRequest = isJsonRpc
+      ? (JSON.parse(request.body ?? "{}") as JsonRpcRequest)
+      : {
+          jsonrpc: "2.0",
+          method: request.method,
+          params: Object.fromEntries(new URLSearchParams(request.body)),
+          id: 0,
+        };
+    const cookieHeader = request.headers["Cookie"];
+
+    this.requests.push({ endpoint, params: body.params, cookie: cookieHeader ?? null });
+
+    const failure = this.failures.get(endpoint)?.shift();
+    if (failure?.kind === "network") {
+      throw new TypeError(failure.message);
+    }
+    if (failure?.kind === "hang") {
+      return new Promise((_resolve, reject) => {
+        request.signal?.addEventListener("abort", () => reject(new Error("The operation was aborted")));
+      });
+    }
+    if (failure?.kind === "http") {
+      return makeResponse(failure.status, "{}", {}, failure.statusText);
+    }
+
+    const cookies = parseCookies(cookieHeader);
+    const uid = cookies.session_id ? this.sessions.get(cookies.session_id) : undefined;
+    const context: MockRequestContext = {
+      server: this,
+      user: this.users.find((u) => u.uid === uid) ?? null,
+      cookies: { ...cookies },
+    };
+
+    if (!isJsonRpc) {
+      return this.sendPage(endpoint, body.params as Record<string, string>, context, cookies);
+    }
+
+    const handler = this.routes.get(endpoint);
+    if (!handler) {
+      return jsonResponse({
+        jsonrpc: "2.0",
+        id: body.id,
+        error: { code: 404, message: "404: Not Found", data: { message: `No route for ${endpoint}`, debug: "" } },
+      });
+    }
+
+    try {
+      const result = await handler(body.params, context);
+      const setCookie = context.cookies.session_id !== cookies.session_id ? this.sessionCookie(context) : null;
+      return jsonResponse({ jsonrpc: "2.0", id: body.id, result }, setCookie);
+    } catch (error) {
+      const fault = error instanceof MockOdooFault ? error : new MockOdooFault(String(error));
+      return jsonResponse({
+        jsonrpc: "2.0",
+        id: body.id,
+        error: {
+          code: fault.code,
+          message: fault.code === 100 ? "Odoo Session Expired" : "Odoo Server Error",
+          data: { name: fault.debug, message: fault.message, debug: fault.debug },
+        },
+      });
+    }
+  }
+
+  private async sendPage(
+    endpoint: string,
+    form: Record<string, string>,
+    context: MockRequestContext,
+    cookies: Record<string, string>,
+  ): Promise<TransportResponse> {
+    const handler = this.pageRoutes.get(endpoint);
+    if (!handler) {
+      return makeResponse(404, "<html><body>404: Not Found</body></html>");
+    }
+
+    const page = await handler(form, context);
+    const setCookie = context.cookies.session_id !== cookies.session_id ? this.sessionCookie(context) : null;
+    return makeResponse(page.status, page.body ?? "", { "set-cookie": setCookie, location: page.location ?? null });
+  }
+
+  /**
+   * Current server time in Odoo datetime format
+   */
+  serverTime(): string {
+    return toOdooDatetime(this.now());
+  }
+
+  /**
+   * The analytic line whose timer is running for a user, if any
+   */
+  runningLine(user: MockOdooUser): MockAnalyticLine | undefined {
+    return [...this.lines.values()].find((l) => l.employee_id === user.employeeId && l.timer_start);
+  }
+
+  /**
+   * The open (not checked out) attendance for a user, if any
+   */
+  openAttendance(user: MockOdooUser): MockAttendance | undefined {
+    return this.attendances.find((a) => a.employee_id === user.employeeId && !a.check_out);
+  }
+
+  private queueFailure(endpoint: string, failure: ScriptedFailure): void {
+    const queue = this.failures.get(endpoint) ?? [];
+    queue.push(failure);
+    this.failures.set(endpoint, queue);
+  }
+
+  private sessionCookie(context: MockRequestContext): string {
+    return `session_id=${context.cookies.session_id}; Expires=Fri, 01 Jan 2100 00:00:00 GMT; HttpOnly; Path=/`;
+  }
+
+  private requireUser(context: MockRequestContext): MockOdooUser {
+    if (!context.user) {
+      throw new MockOdooFault("Session expired", 100, "odoo.http.SessionExpiredException");
+    }
+    return context.user;
+  }
+
+  private get majorVersion(): number {
+    return parseInt(this.serverVersion.replace(/^saas~/, ""));
+  }
+
+  private employeeUser(employeeId: number): MockOdooUser {
+    const user = this.users.find((u) => u.employeeId === employeeId);
+    if (!user) {
+      throw new MockOdooFault(`Record does not exist or has been deleted. (Record: hr.employee(${employeeId},))`);
+    }
+    return user;
+  }
+
+  private attendanceState(user: MockOdooUser) {
+    const today = this.serverTime().substring(0, 10);
+    const own = this.attendances.filter((a) => a.employee_id === user.employeeId);
+    const last = own[own.length - 1];
+    const hoursToday = own
+      .filter((a) => a.check_in.startsWith(today))
+      .reduce((sum, a) => {
+        const end = a.check_out ? parseOdooDatetime(a.check_out) : this.now();
+        return sum + (end.getTime() - parseOdooDatetime(a.check_in).getTime()) / 3600000;
+      }, 0);
+
+    return {
+      attendance_state: this.openAttendance(user) ? "checked_in" : "checked_out",
+      last_check_in: last?.check_in ?? null,
+      last_check_out: last?.check_out || null,
+      hours_today: Math.round(hoursToday * 100) / 100,
+      employee_name: user.name,
+    };
+  }
+
+  private toggleAttendance(user: MockOdooUser) {
+    const open = this.openAttendance(user);
+    if (open) {
+      open.check_out = this.serverTime();
+    } else {
+      this.attendances.push({
+        id: this.nextId++,
+        employee_id: user.employeeId,
+        check_in: this.serverTime(),
+        check_out: false,
+      });
+    }
+    return this.attendanceState(user);
+  }
+
+  private stopLine(line: MockAnalyticLine): void {
+    if (!line.timer_start) return;
+    // A paused timer only counts the time up to the pause
+    const end = line.timer_pause ? parseOdooDatetime(line.timer_pause) : this.now();
+    const elapsed = end.getTime() - parseOdooDatetime(line.timer_start).getTime();
+
+    // Same rules as Odoo's _timer_rounding: apply the minimum, then round up to the step
+    let minutes = Math.max(this.timesheetMinDuration, elapsed / 60000);
+    if (this.timesheetRounding && Math.ceil(minutes % this.timesheetRounding) > 0) {
+      minutes = Math.ceil(minutes / this.timesheetRounding) * this.timesheetRounding;
+    }
+    line.unit_amount += minutes / 60;
+    line.timer_start = false;
+    line.timer_pause = false;
+  }
+
+  /**
+   * Serialize an analytic line the way Odoo's read() does, with many2one fields as [id, name]
+   */
+  private formatLine(line: MockAnalyticLine, fields?: string[]): Record<string, unknown> {
+    const project = this.projects.find((p) => p.id === line.project_id);
+    const task = this.tasks.find((t) => t.id === line.task_id);
+    const employee = this.users.find((u) => u.employeeId === line.employee_id);
+
+    const record: Record<string, unknown> = {
+      ...line,
+      project_id: project ? [project.id, project.name] : false,
+      task_id: task ? [task.id, task.name] : false,
+      employee_id: employee ? [employee.employeeId, employee.name] : false,
+      timer_pause: line.timer_pause ?? false,
+      validated: line.validated ?? false,
+      timesheet_invoice_id: line.timesheet_invoice_id
+        ? [line.timesheet_invoice_id, `INV/${line.timesheet_invoice_id}`]
+        : false,
+    };
+
+    if (!fields || fields.length === 0) return record;
+    return Object.fromEntries([["id", line.id], ...fields.map((f) => [f, record[f]])]);
+  }
+
+  private getLine(id: unknown): MockAnalyticLine {
+    const line = this.lines.get(Number(id));
+    if (!line) {
+      throw new MockOdooFault(`Record account.analytic.line(${String(id)}) does not exist`);
+    }
+    return line;
+  }
+
+  private registerDefaultRoutes(): void {
+    this.on("/web/database/list", () => this.databases);
+
+    this.on("/web/session/authenticate", (params, context) => {
+      if (params.db && !this.databases.includes(String(params.db))) {
+        throw new MockOdooFault(`Database ${String(params.db)} not found`);
+      }
+
+      const user = this.users.find((u) => u.login === params.login && u.password === params.password);
+      if (!user) {
+        throw new MockOdooFault("Access Denied", 200, "odoo.exceptions.AccessDenied");
+      }
+
+      const sessionId = `mock-session-${this.nextId++}`;
+      context.cookies.session_id = sessionId;
+
+      // Odoo only half-authenticates the session and expects the TOTP step at /web/login/totp
+      if (user.totpCode) {
+        this.pendingTotpSessions.set(sessionId, user.uid);
+        return { uid: null };
+      }
+
+      this.sessions.set(sessionId, user.uid);
+      context.user = user;
+
+      return {
+        uid: user.uid,
+        username: user.login,
+        name: user.name,
+        company_id: user.companyId,
+        partner_id: user.uid,
+        session_id: sessionId,
+        user_context: { tz: user.tz },
+      };
+    });
+
+    this.on("/web/session/get_session_info", (_params, context) => {
+      const user = this.requireUser(context);
+      return {
+        uid: user.uid,
+        username: user.login,
+        name: user.name,
+        company_id: user.companyId,
+        partner_id: user.uid,
+        user_context: { tz: user.tz },
+        db: this.databases[0],
+      };
+    });
+
+    this.onPage("/web/login/totp", (form, context) => {
+      const sessionId = context.cookies.session_id ?? "";
+      const uid = this.pendingTotpSessions.get(sessionId);
+      if (uid === undefined) {
+        return { status: 303, location: "/web/login" };
+      }
+
+      const csrfToken = `mock-csrf-${sessionId}`;
+      const page = (error = "") =>
+        `<html><body><form method="POST" action="/web/login/totp">` +
+        `<input type="hidden" name="csrf_token" value="${csrfToken}"/>` +
+        `${error ? `<p class="alert alert-danger">${error}</p>` : ""}` +
+        `<input name="totp_token"/></form></body></html>`;
+
+      // GET renders the form
+      if (Object.keys(form).length === 0) {
+        return { status: 200, body: page() };
+      }
+
+      if (form.csrf_token !== csrfToken) {
+        return { status: 400, body: "Session expired (invalid CSRF token)" };
+      }
+
+      const user = this.users.find((u) => u.uid === uid);
+      if (!user || form.totp_token !== user.totpCode) {
+        return { status: 200, body: page("Verification failed, please double-check the 6-digit code") };
+      }
+
+      // Odoo rotates the session id once the second factor is verified
+      const newSessionId = `mock-session-${this.nextId++}`;
+      this.pendingTotpSessions.delete(sessionId);
+      this.sessions.set(newSessionId, user.uid);
+      context.cookies.session_id = newSessionId;
+      return { status: 303, location: form.redirect || "/odoo" };
+    });
+
+    this.on("/web/session/destroy", (_params, context) => {
+      if (context.cookies.session_id) {
+        this.sessions.delete(context.cookies.session_id);
+      }
+      return null;
+    });
+
+    this.on("/web/dataset/call_kw", (params, context) => {
+      const key = `${String(params.model)}.${String(params.method)}`;
+      const handler = this.callKwHandlers.get(key);
+      if (!handler) {
+        throw new MockOdooFault(`The method '${String(params.method)}' does not exist on the model '${params.model}'`);
+      }
+      this.requireUser(context);
+      return handler((params.args as unknown[]) ?? [], (params.kwargs as Record<string, unknown>) ?? {}, context);
+    });
+
+    this.on("/jsonrpc", (params, context) => {
+      const args = (params.args as unknown[]) ?? [];
+
+      if (params.service === "common" && params.method === "version") {
+        const [major, minor] = this.serverVersion
+          .replace(/^saas~/, "")
+          .split(".")
+          .map(Number);
+        return {
+          server_version: this.serverVersion,
+          server_version_info: [major, minor || 0, 0, "final", 0, ""],
+          server_serie: this.serverVersion,
+          protocol_version: 1,
+        };
+      }
+
+      if (params.service === "common" && params.method === "authenticate") {
+        const [db, login, key] = args;
+        const user = this.users.find((u) => u.login === login && u.apiKeys.includes(String(key)));
+        return db && this.databases.includes(String(db)) && user ? user.uid : false;
+      }
+
+      if (params.service === "object" && params.method === "execute_kw") {
+        const [db, uid, key, model, method, methodArgs, kwargs] = args;
+        const user = this.users.find((u) => u.uid === uid && u.apiKeys.includes(String(key)));
+        if (!this.databases.includes(String(db)) || !user) {
+          throw new MockOdooFault("Access Denied", 200, "odoo.exceptions.AccessDenied");
+        }
+
+        const handler = this.callKwHandlers.get(`${String(model)}.${String(method)}`);
+        if (!handler) {
+          throw new MockOdooFault(`The method '${String(method)}' does not exist on the model '${model}'`);
+        }
+        context.user = user;
+        return handler((methodArgs as unknown[]) ?? [], (kwargs as Record<string, unknown>) ?? {}, context);
+      }
+
+      throw new MockOdooFault(`Unsupported service ${String(params.service)}.${String(params.method)}`);
+    });
+
+    if (this.majorVersion >= 17) {
+      this.on("/hr_attendance/attendance_user_data", (_params, context) =>
+        this.attendanceState(this.requireUser(context)),
+      );
+
+      this.on("/hr_attendance/systray_check_in_out", (_params, context) =>
+        this.toggleAttendance(this.requireUser(context)),
+      );
+    }
+  }
+
+  private registerDefaultCallKw(): void {
+    const ANALYTIC_LINE = "account.analytic.line";
+
+    this.onCallKw("hr.employee", "search_read", (args) => {
+      const domain = (args[0] as Array<[string, string, unknown]>) ?? [];
+      const userFilter = domain.find(([field]) => field === "user_id");
+      return this.users
+        .filter((u) => !userFilter || u.uid === userFilter[2])
+        .map((u) => {
+          const attendance = this.attendanceState(u);
+          return {
+            id: u.employeeId,
+            name: u.name,
+            attendance_state: attendance.attendance_state,
+            last_check_in: attendance.last_check_in || false,
+            last_check_out: attendance.last_check_out || false,
+            hours_today: attendance.hours_today,
+            resource_calendar_id: this.workingHours ? [1, "Standard Schedule"] : false,
+            total_overtime: this.overtimes
+              .filter((o) => o.employee_id === u.employeeId)
+              .reduce((sum, o) => sum + o.duration, 0),
+          };
+        });
+    });
+
+    this.onCallKw("resource.calendar", "read", (args) =>
+      ((args[0] as number[]) ?? []).map((id) => ({ id, two_weeks_calendar: false, hours_per_day: 8 })),
+    );
+
+    // One morning attendance per working day, plus a lunch break like Odoo 17+
+    this.onCallKw("resource.calendar.attendance", "search_read", () =>
+      (this.workingHours ?? []).flatMap((hours, day) =>
+        hours > 0
+          ? [
+              { dayofweek: String(day), hour_from: 8, hour_to: 8 + hours, day_period: "morning", week_type: false },
+              { dayofweek: String(day), hour_from: 12, hour_to: 13, day_period: "lunch", week_type: false },
+            ]
+          : [],
+      ),
+    );
+
+    this.onCallKw("res.users", "read", (args) => {
+      const ids = (args[0] as number[]) ?? [];
+      return this.users
+        .filter((u) => ids.includes(u.uid))
+        .map((u) => ({ id: u.uid, name: u.name, company_id: [u.companyId, "My Company"], tz: u.tz }));
+    });
+
+    if (this.majorVersion < 17) {
+      // Like Odoo, toggles exactly one employee: the one it is called on
+      this.onCallKw("hr.employee", "attendance_manual", (args, _kwargs, context) => {
+        this.requireUser(context);
+        const ids = (args[0] as number[]) ?? [];
+        if (ids.length !== 1) {
+          throw new MockOdooFault(`Expected singleton: hr.employee(${ids.join(", ")})`, 200, "builtins.ValueError");
+        }
+        this.toggleAttendance(this.employeeUser(ids[0]));
+        return { action: { type: "ir.actions.act_window_close" } };
+      });
+    }
+
+    this.onCallKw("hr.employee", "search", (args) => {
+      const domain = (args[0] as Array<[string, string, unknown]>) ?? [];
+      const userFilter = domain.find(([field]) => field === "user_id");
+      return this.users.filter((u) => !userFilter || u.uid === userFilter[2]).map((u) => u.employeeId);
+    });
+
+    this.onCallKw("hr.attendance", "create", (args) => {
+      const values = args[0] as { employee_id: number; check_in: string; check_out?: string | false };
+      if (this.attendances.some((a) => a.employee_id === values.employee_id && !a.check_out)) {
+        throw new MockOdooFault(
+          "Cannot create new attendance record, the employee hasn't checked out since",
+          200,
+          "odoo.exceptions.ValidationError",
+        );
+      }
+      const attendance = { id: this.nextId++, check_out: false as string | false, ...values };
+      this.attendances.push(attendance);
+      return attendance.id;
+    });
+
+    this.onCallKw("hr.attendance", "search", (args) => {
+      const domain = (args[0] as unknown[]) ?? [];
+      return this.attendances
+        .filter((a) => matchesDomain(a as unknown as Record<string, unknown>, domain))
+        .map((a) => a.id);
+    });
+
+    this.onCallKw("hr.attendance", "write", (args) => {
+      const [ids, values] = args as [number[], Partial<MockAttendance>];
+      for (const attendance of this.attendances.filter((a) => ids.includes(a.id))) {
+        Object.assign(attendance, values);
+      }
+      return true;
+    });
+
+    this.onCallKw("hr.attendance", "search_read", (args, kwargs) => {
+      const domain = (args[0] as unknown[]) ?? [];
+      const fields = kwargs.fields as string[] | undefined;
+      return this.attendances
+        .map((a) => ({
+          ...a,
+          "employee_id.user_id": this.users.find((u) => u.employeeId === a.employee_id)?.uid ?? false,
+          worked_hours: a.check_out
+            ? (parseOdooDatetime(a.check_out).getTime() - parseOdooDatetime(a.check_in).getTime()) / 3600000
+            : 0,
+        }))
+        .filter((a) => matchesDomain(a, domain))
+        .sort((a, b) => b.check_in.localeCompare(a.check_in))
+        .map((a) => {
+          const record: Record<string, unknown> = { id: a.id };
+          for (const field of fields ?? ["employee_id", "check_in", "check_out", "worked_hours"]) {
+            record[field] = a[field as keyof typeof a];
+          }
+          return record;
+        });
+    });
+
+    this.onCallKw("hr.attendance.overtime", "search_read", (args) => {
+      const domain = (args[0] as unknown[]) ?? [];
+      return this.overtimes
+        .filter((o) => matchesDomain(o as unknown as Record<string, unknown>, domain))
+        .sort((a, b) => b.date.localeCompare(a.date));
+    });
+
+    this.onCallKw("project.project", "name_search", (args) => {
+      const search = String(args[0] ?? "").toLowerCase();
+      return this.projects.filter((p) => p.name.toLowerCase().includes(search)).map((p) => [p.id, p.name]);
+    });
+
+    this.onCallKw("project.task", "name_search", (args, kwargs) => {
+      const search = String(args[0] ?? "").toLowerCase();
+      const domain = (kwargs.args as Array<[string, string, unknown]>) ?? [];
+      const projectFilter = domain.find(([field]) => field === "project_id");
+      return this.tasks
+        .filter((t) => !projectFilter || t.projectId === projectFilter[2])
+        .filter((t) => t.name.toLowerCase().includes(search))
+        .map((t) => [t.id, t.name]);
+    });
+
+    this.onCallKw("project.task", "name_create", (args, kwargs) => {
+      const context = (kwargs.context as Record<string, unknown>) ?? {};
+      const task = { id: this.nextId++, name: String(args[0]), projectId: Number(context.default_project_id) };
+      this.tasks.push(task);
+      return [task.id, task.name];
+    });
+
+    this.onCallKw("timer.timer", "get_server_time", () => this.serverTime());
+
+    this.onCallKw("ir.config_parameter", "get_param", (args, _kwargs, context) => {
+      if (!this.requireUser(context).isAdmin) {
+        throw new MockOdooFault(
+          "You are not allowed to access 'System Parameter' (ir.config_parameter) records.",
+          200,
+          "odoo.exceptions.AccessError",
+        );
+      }
+
+      const params: Record<string, string> = {
+        "timesheet_grid.timesheet_min_duration": String(this.timesheetMinDuration),
+        "timesheet_grid.timesheet_rounding": String(this.timesheetRounding),
+      };
+      return params[args[0] as string] ?? false;
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "create", (args, _kwargs, context) => {
+      const user = this.requireUser(context);
+      const values = (args[0] as Partial<MockAnalyticLine>) ?? {};
+      const line: MockAnalyticLine = {
+        id: this.nextId++,
+        name: values.name ?? false,
+        project_id: values.project_id ?? false,
+        task_id: values.task_id ?? false,
+        employee_id: user.employeeId,
+        date: values.date ?? this.serverTime().substring(0, 10),
+        unit_amount: values.unit_amount ?? 0,
+        timer_start: false,
+      };
+      this.lines.set(line.id, line);
+      return line.id;
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "write", (args) => {
+      const [ids, values] = args as [number[], Partial<MockAnalyticLine>];
+      for (const id of ids) {
+        Object.assign(this.getLine(id), values);
+      }
+      return true;
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "web_save", (args) => {
+      const [ids, values] = args as [number[], Partial<MockAnalyticLine>];
+      return ids.map((id) => {
+        Object.assign(this.getLine(id), values);
+        return { id };
+      });
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "onchange", () => ({ value: {} }));
+
+    this.onCallKw(ANALYTIC_LINE, "read", (args) => {
+      const [ids, fields] = args as [number[], string[] | undefined];
+      return ids.map((id) => this.formatLine(this.getLine(id), fields));
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "search_read", (args, kwargs) => {
+      const domain = (args[0] as unknown[]) ?? [];
+      const fields = kwargs.fields as string[] | undefined;
+      return [...this.lines.values()]
+        .filter((line) => matchesDomain(line as unknown as Record<string, unknown>, domain))
+        .sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id)
+        .map((line) => this.formatLine(line, fields));
+    });
+
+    // Supports summing unit_amount over many2one fields and "date:day", like the grid view does
+    this.onCallKw(ANALYTIC_LINE, "read_group", (args, kwargs) => {
+      const domain = (args[0] as unknown[]) ?? [];
+      const groupby = (args[2] ?? kwargs.groupby) as string[];
+      const groups = new Map<string, { lines: MockAnalyticLine[]; formatted: Record<string, unknown> }>();
+
+      for (const line of this.lines.values()) {
+        if (!matchesDomain(line as unknown as Record<string, unknown>, domain)) continue;
+
+        const formatted = this.formatLine(line);
+        const key = groupby
+          .map((field) => JSON.stringify(field === "date:day" ? line.date : formatted[field]))
+          .join("|");
+        const group = groups.get(key) ?? { lines: [], formatted };
+        group.lines.push(line);
+        groups.set(key, group);
+      }
+
+      return [...groups.values()].map(({ lines, formatted }) => {
+        const result: Record<string, unknown> = {
+          __count: lines.length,
+          unit_amount: lines.reduce((sum, line) => sum + line.unit_amount, 0),
+        };
+        for (const field of groupby) {
+          if (field === "date:day") {
+            const day = lines[0].date;
+            const next = new Date(`${day}T00:00:00Z`);
+            next.setUTCDate(next.getUTCDate() + 1);
+            result[field] = day;
+            result.__range = { [field]: { from: day, to: next.toISOString().substring(0, 10) } };
+          } else {
+            result[field] = formatted[field];
+          }
+        }
+        return result;
+      });
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "fields_get", (args) => {
+      const requested = (args[0] as string[] | undefined) ?? [];
+      const known = [
+        "id",
+        "name",
+        "date",
+        "project_id",
+        "task_id",
+        "employee_id",
+        "unit_amount",
+        "timer_start",
+        "timer_pause",
+        "validated",
+        "timesheet_invoice_id",
+      ];
+      return Object.fromEntries(
+        known.filter((f) => requested.length === 0 || requested.includes(f)).map((f) => [f, { type: "char" }]),
+      );
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "unlink", (args) => {
+      for (const id of args[0] as number[]) {
+        const line = this.getLine(id);
+        if (line.validated || line.timesheet_invoice_id) {
+          throw new MockOdooFault(
+            "You cannot delete a validated or invoiced timesheet",
+            200,
+            "odoo.exceptions.UserError",
+          );
+        }
+        this.lines.delete(line.id);
+      }
+      return true;
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "action_start_new_timesheet_timer", (_args, _kwargs, context) => {
+      const user = this.requireUser(context);
+      const running = this.runningLine(user);
+      if (running) this.stopLine(running);
+
+      const id = this.nextId++;
+      this.lines.set(id, {
+        id,
+        name: false,
+        project_id: false,
+        task_id: false,
+        employee_id: user.employeeId,
+        date: this.serverTime().substring(0, 10),
+        unit_amount: 0,
+        timer_start: this.serverTime(),
+      });
+      return id;
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "action_timer_start", (args, _kwargs, context) => {
+      const user = this.requireUser(context);
+      const running = this.runningLine(user);
+      if (running) this.stopLine(running);
+
+      for (const id of args[0] as number[]) {
+        const line = this.getLine(id);
+        line.timer_start = this.serverTime();
+        line.timer_pause = false;
+      }
+      return true;
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "action_timer_pause", (args) => {
+      for (const id of args[0] as number[]) {
+        const line = this.getLine(id);
+        if (line.timer_start && !line.timer_pause) {
+          line.timer_pause = this.serverTime();
+        }
+      }
+      return true;
+    });
+
+    // Like Odoo, shift the start forward by the paused time so elapsed time stays continuous
+    this.onCallKw(ANALYTIC_LINE, "action_timer_resume", (args) => {
+      for (const id of args[0] as number[]) {
+        const line = this.getLine(id);
+        if (line.timer_start && line.timer_pause) {
+          const pausedMs = this.now().getTime() - parseOdooDatetime(line.timer_pause).getTime();
+          line.timer_start = toOdooDatetime(new Date(parseOdooDatetime(line.timer_start).getTime() + pausedMs));
+          line.timer_pause = false;
+        }
+      }
+      return true;
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "action_timer_stop", (args) => {
+      const ids = Array.isArray(args[0]) ? (args[0] as number[]) : [args[0]];
+      for (const id of ids) {
+        this.stopLine(this.getLine(id));
+      }
+      return false;
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "action_timer_unlink", (args) => {
+      const ids = Array.isArray(args[0]) ? (args[0] as number[]) : [args[0]];
+      for (const id of ids) {
+        this.getLine(id);
+        this.lines.delete(Number(id));
+      }
+      return false;
+    });
+
+    this.onCallKw(ANALYTIC_LINE, "get_running_timer", (_args, _kwargs, context) => {
+      // Odoo leaves paused timers out
+      const line = this.runningLine(this.requireUser(context));
+      if (!line || !line.timer_start || line.timer_pause) {
+        return { step_timer: this.timesheetRounding };
+      }
+
+      const elapsedMs = this.now().getTime() - parseOdooDatetime(line.timer_start).getTime();
+      return {
+        id: line.id,
+        start: Math.floor(elapsedMs / 60000),
+        project_id: line.project_id || undefined,
+        task_id: line.task_id || undefined,
+        description: line.name || undefined,
+        step_timer: this.timesheetRounding,
+      };
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  getPendingActions,
+  login,
+  queuePendingAction,
+  startTimerWithDetails,
+  syncPendingActions,
+} from "../src/utils/odoo";
+import { MockOdooServer } from "./mock-server";
+import { BASE_URL, setupServer, testClock } from "./helpers";
+
+// Read-only calls are retried twice before giving up
+function dropConnection(server: MockOdooServer) {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    server.failNextWithNetworkError("/web/dataset/call_kw");
+  }
+}
+
+describe("offline queue", () => {
+  let server: MockOdooServer;
+  let clock: ReturnType<typeof testClock>;
+
+  beforeEach(async () => {
+    clock = testClock("2026-10-19T09:00:00Z");
+    ({ server } = setupServer({ now: clock.now }));
+    await login(BASE_URL, "demo", "demo");
+  });
+
+  it("keeps a queued stop while Odoo is still unreachable", async () => {
+    const { timerId } = await startTimerWithDetails(1, 11, "Landing page");
+    await queuePendingAction({ type: "stop_timer", timerId, description: null }, new Date("2026-10-19T09:30:00Z"));
+    clock.advance(60);
+
+    dropConnection(server);
+    const offline = await syncPendingActions();
+
+    expect(offline).toMatchObject({ synced: 0, remaining: 1, conflict: null, offline: true });
+    expect(await getPendingActions()).toEqual([expect.objectContaining({ type: "stop_timer", conflict: null })]);
+    expect(server.lines.get(timerId)?.timer_start).not.toBe(false);
+
+    const online = await syncPendingActions();
+
+    expect(online).toMatchObject({ synced: 1, remaining: 0, conflict: null, offline: false });
+    expect(server.lines.get(timerId)).toMatchObject({ unit_amount: 0.5, timer_start: false });
+  });
+
+  it("does not start a queued timer while Odoo is still unreachable", async () => {
+    await queuePendingAction(
+      { type: "start_timer", projectId: 1, projectName: "Website", taskId: 11, taskName: "Build", description: null },
+      new Date("2026-10-19T08:45:00Z"),
+    );
+
+    dropConnection(server);
+    const result = await syncPendingActions();
+
+    expect(result.offline).toBe(true);
+    expect(server.lines.size).toBe(0);
+    expect(await getPendingActions()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getHourProgress, getWorkingSchedule, login } from "../src/utils/odoo";
+import { MockOdooServer } from "./mock-server";
+import { BASE_URL, setupServer } from "./helpers";
+
+describe("working schedule", () => {
+  let server: MockOdooServer;
+
+  beforeEach(async () => {
+    ({ server } = setupServer({ workingHours: [8, 8, 8, 8, 6, 0, 0] }));
+    await login(BASE_URL, "demo", "demo");
+  });
+
+  it("reads the employee's calendar without lunch breaks", async () => {
+    expect(await getWorkingSchedule()).toEqual({ name: "Standard Schedule", weeks: [[8, 8, 8, 8, 6, 0, 0]] });
+
+    const attendanceRead = server
+      .requestsTo("/web/dataset/call_kw")
+      .find((request) => request.params.model === "resource.calendar.attendance");
+    expect(attendanceRead?.params.args).toEqual([[["calendar_id", "=", 1]]]);
+  });
+
+  it("has no schedule when the employee has no calendar", async () => {
+    setupServer({ workingHours: null });
+    await login(BASE_URL, "demo", "demo");
+
+    expect(await getWorkingSchedule()).toBeNull();
+  });
+
+  it("reuses recent progress for background refreshes", async () => {
+    const readGroups = () => server.requestsTo("/web/dataset/call_kw").filter((r) => r.params.method === "read_group");
+
+    const fresh = await getHourProgress();
+    expect(await getHourProgress(true)).toEqual(fresh);
+    expect(readGroups()).toHaveLength(1);
+
+    await getHourProgress(false);
+    expect(readGroups()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  cancelTimer,
+  getRunningTimer,
+  getTimesheetEntries,
+  login,
+  resumeTimesheetEntry,
+  startTimerWithDetails,
+  stopTimer,
+  switchTimer,
+} from "../src/utils/odoo";
+import { MockOdooFault, MockOdooServer } from "./mock-server";
+import { BASE_URL, setupServer, testClock } from "./helpers";
+
+describe("timer", () => {
+  let server: MockOdooServer;
+  let clock: ReturnType<typeof testClock>;
+
+  beforeEach(async () => {
+    clock = testClock("2026-10-19T09:00:00Z");
+    ({ server } = setupServer({ now: clock.now }));
+    await login(BASE_URL, "demo", "demo");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("starts a timer on a task", async () => {
+    const { timerId, startTime } = await startTimerWithDetails(1, 11, "Landing page");
+
+    expect(startTime).toBe("2026-10-19 09:00:00");
+    const timer = await getRunningTimer(false);
+    expect(timer).toMatchObject({
+      timerId,
+      projectId: 1,
+      projectName: "Website",
+      taskId: 11,
+      taskName: "Build",
+      description: "Landing page",
+      paused: false,
+    });
+  });
+
+  it("stops a timer and saves the tracked time on the line", async () => {
+    const { timerId } = await startTimerWithDetails(1, 11, "Landing page");
+    clock.advance(45);
+
+    const result = await stopTimer(timerId);
+
+    expect(result.duration).toBe(45 * 60);
+    expect(result.trackedSeconds).toBe(45 * 60);
+    expect(result.minimumApplied).toBe(false);
+    expect(server.lines.get(timerId)).toMatchObject({ unit_amount: 0.75, timer_start: false });
+    expect(await getRunningTimer(false)).toBeNull();
+  });
+
+  it("reports only this session's time when stopping a resumed line", async () => {
+    // Only today's lines are resumed in place
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(clock.now());
+    const { timerId } = await startTimerWithDetails(1, 11, "Landing page");
+    clock.advance(60);
+    await stopTimer(timerId);
+
+    const [entry] = await getTimesheetEntries({ from: new Date(2026, 9, 19), to: new Date(2026, 9, 19) });
+    await resumeTimesheetEntry(entry);
+    clock.advance(30);
+    const result = await stopTimer(timerId);
+
+    expect(result.duration).toBe(30 * 60);
+    expect(server.lines.get(timerId)?.unit_amount).toBe(1.5);
+  });
+
+  it("applies the company's minimum duration on stop", async () => {
+    setupServer({
+      now: clock.now,
+      timesheetMinDuration: 15,
+      users: [{ login: "demo", password: "demo", isAdmin: true }],
+    });
+    await login(BASE_URL, "demo", "demo");
+    const { timerId } = await startTimerWithDetails(2, 20);
+    clock.advance(5);
+
+    const result = await stopTimer(timerId);
+
+    expect(result.duration).toBe(15 * 60);
+    expect(result.trackedSeconds).toBe(5 * 60);
+    expect(result.minimumApplied).toBe(true);
+  });
+
+  it("cancels a timer without keeping its line", async () => {
+    const { timerId } = await startTimerWithDetails(2, 20, "Ticket 42");
+    clock.advance(10);
+
+    await cancelTimer(timerId);
+
+    expect(server.lines.has(timerId)).toBe(false);
+    expect(await getRunningTimer(false)).toBeNull();
+  });
+
+  it("switches the running timer to another task", async () => {
+    const { timerId } = await startTimerWithDetails(1, 11, "Landing page");
+    clock.advance(30);
+
+    const result = await switchTimer(timerId, 2, 20);
+
+    expect(result.duration).toBe(30 * 60);
+    expect(server.lines.get(timerId)).toMatchObject({ unit_amount: 0.5, timer_start: false });
+    expect(await getRunningTimer(false)).toMatchObject({ timerId: result.timerId, projectId: 2, taskId: 20 });
+  });
+
+  it("restores the previous line when the new timer can't be started", async () => {
+    // A resumed line already holds time, which the rollback must put back as it was
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(clock.now());
+    const { timerId } = await startTimerWithDetails(1, 11, "Landing page");
+    clock.advance(60);
+    await stopTimer(timerId);
+    const [entry] = await getTimesheetEntries({ from: new Date(2026, 9, 19), to: new Date(2026, 9, 19) });
+    await resumeTimesheetEntry(entry);
+    const before = { ...server.lines.get(timerId) };
+    clock.advance(30);
+
+    server.onCallKw("account.analytic.line", "create", () => {
+      throw new MockOdooFault("You cannot log time on an archived task", 200, "odoo.exceptions.UserError");
+    });
+
+    await expect(switchTimer(timerId, 2, 20, "Landing page, header")).rejects.toThrow("archived task");
+
+    expect(before).toMatchObject({ unit_amount: 1, timer_start: "2026-10-19 10:00:00" });
+    expect(server.lines.get(timerId)).toMatchObject({
+      name: "Landing page",
+      unit_amount: before.unit_amount,
+      timer_start: before.timer_start,
+      timer_pause: false,
+    });
+    expect(await getRunningTimer(false)).toMatchObject({ timerId, projectId: 1, taskId: 11 });
+  });
+});